@@ -4,11 +4,12 @@
  * Cross-platform build script that mirrors workspace to build/ and builds Quartz
  */
 
-import { spawn } from 'child_process'
+import { execFile, spawn } from 'child_process'
 import { promises as fs } from 'fs'
 import path from 'path'
 import chokidar from 'chokidar'
 import ignore from 'ignore'
+import yaml from 'js-yaml'
 
 // Parse command line arguments
 const args = process.argv.slice(2)
@@ -16,8 +17,47 @@ const serve = args.includes('--serve')
 const watch = args.includes('--watch')
 const noBuildDir = args.includes('--no-build-dir')
 const verbose = args.includes('--verbose')
+const timings = args.includes('--timings')
+
+// Value of an option given as `--name value` or `--name=value`
+function optionValue(name) {
+  const inline = args.find((arg) => arg.startsWith(`${name}=`))
+  if (inline) return inline.slice(name.length + 1)
+  
+  const index = args.indexOf(name)
+  if (index === -1) return undefined
+  const value = args[index + 1]
+  if (!value || value.startsWith('--')) {
+    console.error(`${name} needs a value`)
+    process.exit(1)
+  }
+  return value
+}
+
+// Build profile from src/build-profiles.json; dev skips expensive plugins while serving or watching
+const profile = optionValue('--profile') ?? (serve || watch ? 'dev' : 'prod')
+const PROFILES_PATH = path.join('src', 'build-profiles.json')
+
+// Fail on an unknown profile before mirroring, rather than when Quartz loads its config
+async function checkProfile() {
+  const profiles = JSON.parse(await fs.readFile(PROFILES_PATH, 'utf8'))
+  if (!Object.hasOwn(profiles, profile)) {
+    console.error(`Unknown build profile "${profile}" (expected one of: ${Object.keys(profiles).join(', ')})`)
+    process.exit(1)
+  }
+}
 
 const BUILD_DIR = 'build'
+const MANIFEST_PATH = path.join(BUILD_DIR, '.mirror-manifest.json')
+
+// Workspace files mirrored into build/, by relative path, with the size and mtime they were copied
+// at and the mtime of the copy. Only files listed here are ever pruned, so Quartz output and
+// installs in build/ survive.
+let manifest = {}
+
+// Files copyCustomizations wrote into build/quartz_repo on its last run, relative to build/, so the
+// outputs of deleted src/ files are pruned and the upstream files they replaced are restored
+let customizations = []
 
 // Create gitignore filter
 async function createGitignoreFilter() {
@@ -53,12 +93,14 @@ async function copyFile(src, dest) {
     if (verbose) {
       console.log(`Copied ${path.relative('.', src)}`)
     }
+    return true
   } catch (error) {
     console.warn(`Warning: Could not copy ${src}: ${error.message}`)
+    return false
   }
 }
 
-async function copyDirectory(src, dest, ignoreFilter = null) {
+async function copyDirectory(src, dest, ignoreFilter = null, copied = null) {
   try {
     await fs.mkdir(dest, { recursive: true })
     
@@ -81,9 +123,9 @@ async function copyDirectory(src, dest, ignoreFilter = null) {
       const destPath = path.join(dest, entry.name)
       
       if (entry.isDirectory()) {
-        await copyDirectory(srcPath, destPath, ignoreFilter)
-      } else {
-        await copyFile(srcPath, destPath)
+        await copyDirectory(srcPath, destPath, ignoreFilter, copied)
+      } else if (await copyFile(srcPath, destPath)) {
+        copied?.push(destPath)
       }
     }
   } catch (error) {
@@ -91,18 +133,134 @@ async function copyDirectory(src, dest, ignoreFilter = null) {
   }
 }
 
-async function mirrorWorkspace() {
-  console.log('Mirroring workspace to build directory...')
-  
-  // Clean and create build directory
+async function loadManifest() {
+  try {
+    const saved = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8'))
+    // Manifests from before customizations were tracked only listed mirrored files
+    return saved.mirrored ? saved : null
+  } catch {
+    return null
+  }
+}
+
+async function saveManifest() {
+  await fs.writeFile(MANIFEST_PATH, JSON.stringify({ mirrored: manifest, customizations }))
+}
+
+// Relative paths (forward slashes) of all workspace files that are not gitignored
+async function listWorkspaceFiles(dir, ignoreFilter, files = []) {
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+
+  for (const entry of entries) {
+    const srcPath = path.join(dir, entry.name)
+    const relativePath = path.relative('.', srcPath).replace(/\\/g, '/')
+
+    if (ignoreFilter.ignores(relativePath)) {
+      continue
+    }
+
+    if (entry.isDirectory()) {
+      await listWorkspaceFiles(srcPath, ignoreFilter, files)
+    } else {
+      files.push(relativePath)
+    }
+  }
+
+  return files
+}
+
+// Whether build/ still has the copy mirrorFile made, rather than none (deleted by hand) or one
+// rewritten in place (e.g. package-lock.json by npm). Files an override replaces are rewritten by
+// copyCustomizations on every run, so only the source is checked for those.
+async function hasMirroredCopy(relativePath, entry) {
+  if (customizations.includes(relativePath)) {
+    return true
+  }
+
+  const destPath = path.join(BUILD_DIR, relativePath)
   try {
-    await fs.rm(BUILD_DIR, { recursive: true, force: true })
+    const stats = await fs.stat(destPath)
+    if (stats.mtimeMs === entry.copyMtimeMs) {
+      return true
+    }
+
+    // Rewritten with the same content, as npm install does to package-lock.json
+    if (stats.size === entry.size && (await fs.readFile(destPath)).equals(await fs.readFile(relativePath))) {
+      entry.copyMtimeMs = stats.mtimeMs
+      return true
+    }
+    return false
+  } catch {
+    return false
+  }
+}
+
+// Copy one workspace file into build/ unless it is unchanged since it was last mirrored
+async function mirrorFile(relativePath) {
+  let stats
+  try {
+    stats = await fs.stat(relativePath)
+  } catch {
+    return false
+  }
+
+  const entry = manifest[relativePath]
+  if (
+    entry &&
+    entry.size === stats.size &&
+    entry.mtimeMs === stats.mtimeMs &&
+    (await hasMirroredCopy(relativePath, entry))
+  ) {
+    return false
+  }
+
+  const destPath = path.join(BUILD_DIR, relativePath)
+  if (await copyFile(relativePath, destPath)) {
+    const copy = await fs.stat(destPath)
+    manifest[relativePath] = { size: stats.size, mtimeMs: stats.mtimeMs, copyMtimeMs: copy.mtimeMs }
+    return true
+  }
+  return false
+}
+
+// Remove a mirrored file from build/, along with directories it leaves empty
+async function pruneFile(relativePath) {
+  delete manifest[relativePath]
+  await fs.rm(path.join(BUILD_DIR, relativePath), { force: true })
+
+  let dir = path.dirname(path.join(BUILD_DIR, relativePath))
+  while (path.relative(BUILD_DIR, dir) !== '') {
+    try {
+      await fs.rmdir(dir)
+    } catch {
+      break // not empty
+    }
+    dir = path.dirname(dir)
+  }
+
+  if (verbose) {
+    console.log(`Removed ${path.join(BUILD_DIR, relativePath)}`)
+  }
+}
+
+async function pruneDirectory(relativePath) {
+  const prefix = relativePath.replace(/\/$/, '') + '/'
+  for (const file of Object.keys(manifest)) {
+    if (file.startsWith(prefix)) {
+      await pruneFile(file)
+    }
+  }
+}
+
+async function linkGitDirectory() {
+  const gitSymlinkPath = path.join(BUILD_DIR, '.git')
+  try {
+    await fs.lstat(gitSymlinkPath)
+    return // left from an earlier run
   } catch {}
-  await fs.mkdir(BUILD_DIR, { recursive: true })
-  
+
   // Create symlink to .git so git operations in build/ see the main repo
   try {
-    const gitSymlinkPath = path.join(BUILD_DIR, '.git')
     const gitTargetPath = path.resolve('.git')
     
     // Use different approaches for Windows vs Unix
@@ -121,13 +279,41 @@ async function mirrorWorkspace() {
   } catch (error) {
     console.warn('Warning: Could not create git symlink:', error.message)
   }
+}
+
+async function mirrorWorkspace() {
+  console.log('Mirroring workspace to build directory...')
+  
+  // Without a manifest, build/ is from an older build.js or was made by hand: start clean
+  const previous = await loadManifest()
+  if (!previous) {
+    try {
+      await fs.rm(BUILD_DIR, { recursive: true, force: true })
+    } catch {}
+  }
+  manifest = previous?.mirrored ?? {}
+  customizations = previous?.customizations ?? []
+  await fs.mkdir(BUILD_DIR, { recursive: true })
+  await linkGitDirectory()
   
   // Create gitignore filter for exclusions
   const ignoreFilter = await createGitignoreFilter()
   
-  // Copy workspace contents to build, excluding gitignored items
-  await copyDirectory('.', BUILD_DIR, ignoreFilter)
-  console.log('Workspace mirrored to build/')
+  // Copy new and changed files, then prune files that are gone or now ignored
+  const files = await listWorkspaceFiles('.', ignoreFilter)
+  let copied = 0
+  for (const file of files) {
+    if (await mirrorFile(file)) copied++
+  }
+
+  const current = new Set(files)
+  const stale = Object.keys(manifest).filter((file) => !current.has(file))
+  for (const file of stale) {
+    await pruneFile(file)
+  }
+
+  await saveManifest()
+  console.log(`Workspace mirrored to build/ (${copied} copied, ${stale.length} removed, ${files.length - copied} unchanged)`)
 }
 
 async function copyCustomizations() {
@@ -136,6 +322,7 @@ async function copyCustomizations() {
   
   const srcDir = noBuildDir ? 'src' : path.join(BUILD_DIR, 'src')
   const quartzRepoDir = noBuildDir ? 'quartz_repo' : path.join(BUILD_DIR, 'quartz_repo')
+  const copied = []
   
   try {
     const srcEntries = await fs.readdir(srcDir, { withFileTypes: true })
@@ -150,10 +337,10 @@ async function copyCustomizations() {
       
       if (entry.isDirectory()) {
         const destPath = path.join(quartzRepoDir, entry.name)
-        await copyDirectory(srcPath, destPath)
+        await copyDirectory(srcPath, destPath, null, copied)
       } else {
         const destPath = path.join(quartzRepoDir, entry.name)
-        await copyFile(srcPath, destPath)
+        if (await copyFile(srcPath, destPath)) copied.push(destPath)
       }
     }
     
@@ -167,10 +354,10 @@ async function copyCustomizations() {
         const destPath = path.join(quartzRepoDir, 'quartz', entry.name)
         
         if (entry.isDirectory()) {
-          await copyDirectory(srcPath, destPath)
+          await copyDirectory(srcPath, destPath, null, copied)
         } else {
           await fs.mkdir(path.dirname(destPath), { recursive: true })
-          await copyFile(srcPath, destPath)
+          if (await copyFile(srcPath, destPath)) copied.push(destPath)
         }
       }
       const overrideTarget = noBuildDir ? 'quartz_repo/quartz/' : 'build/quartz_repo/quartz/'
@@ -179,12 +366,369 @@ async function copyCustomizations() {
       // quartz_overrides doesn't exist, skip
     }
     
+    if (!noBuildDir) {
+      await pruneCustomizations(copied)
+    }
   } catch (error) {
     console.error('Error copying customizations:', error.message)
     throw error
   }
 }
 
+// Remove what earlier runs of copyCustomizations wrote but this one didn't. pruneFile also forgets
+// the mirrored upstream file an override had replaced, so mirrorFile copies it back.
+async function pruneCustomizations(copied) {
+  const current = new Set(copied.map((destPath) => path.relative(BUILD_DIR, destPath).replace(/\\/g, '/')))
+  const stale = customizations.filter((output) => !current.has(output))
+  for (const output of stale) {
+    await pruneFile(output)
+    if (await mirrorFile(output)) {
+      console.log(`Restored upstream ${output}`)
+    }
+  }
+  
+  customizations = [...current]
+  await saveManifest()
+  if (stale.length > 0) {
+    console.log(`Removed ${stale.length} customization(s) whose source is gone`)
+  }
+}
+
+// Upstream Quartz file each override shadows or was forked from, with its blob hash and the
+// quartz_repo commit it was recorded at. Written by `node build.js overrides accept`.
+const OVERRIDES_LOCK_PATH = 'quartz-overrides.lock.json'
+
+// Files in src/ that started as a copy of a Quartz file under another name. Other overrides are
+// matched by the path copyCustomizations copies them to.
+const FORKED_FILES = {
+  'src/custom-explorer.tsx': 'quartz/components/Explorer.tsx',
+  'src/scripts/custom-explorer.inline.ts': 'quartz/components/scripts/explorer.inline.ts',
+  'src/custom-folder-page.tsx': 'quartz/plugins/emitters/folderPage.tsx',
+  'src/custom-pagetitle.tsx': 'quartz/components/PageTitle.tsx',
+  'src/custom-syntax-highlighting.ts': 'quartz/plugins/transformers/syntax.ts'
+}
+
+function git(gitArgs) {
+  return new Promise((resolve, reject) => {
+    execFile('git', gitArgs, { maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message))
+      } else {
+        resolve(stdout)
+      }
+    })
+  })
+}
+
+// Blob hash of every file committed in the quartz_repo submodule, by path. Read from git rather
+// than the working tree, which copyCustomizations overwrites in --no-build-dir mode.
+async function upstreamBlobs() {
+  const blobs = new Map()
+  const tree = await git(['-C', 'quartz_repo', 'ls-tree', '-r', 'HEAD'])
+  for (const line of tree.split('\n')) {
+    const match = line.match(/^\d+ blob ([0-9a-f]+)\t(.+)$/)
+    if (match) {
+      blobs.set(match[2], match[1])
+    }
+  }
+  return blobs
+}
+
+async function loadOverridesLock() {
+  try {
+    return JSON.parse(await fs.readFile(OVERRIDES_LOCK_PATH, 'utf8'))
+  } catch {
+    return {}
+  }
+}
+
+// Where copyCustomizations puts a src/ file within quartz_repo
+function overrideTarget(file) {
+  const overridesPrefix = 'src/quartz_overrides/'
+  if (file.startsWith(overridesPrefix)) {
+    return `quartz/${file.slice(overridesPrefix.length)}`
+  }
+  return file.slice('src/'.length)
+}
+
+/**
+ * Every src/ file that replaces a Quartz file, with its state against the quartz_repo checkout:
+ * `ok`, `changed` (upstream moved on since it was recorded), `unrecorded` or `removed` upstream
+ */
+async function findOverrides() {
+  const [blobs, lock, files] = await Promise.all([
+    upstreamBlobs(),
+    loadOverridesLock(),
+    createGitignoreFilter().then((ignoreFilter) => listWorkspaceFiles('src', ignoreFilter))
+  ])
+  
+  const overrides = []
+  for (const file of files) {
+    const upstream = FORKED_FILES[file] ?? overrideTarget(file)
+    const blob = blobs.get(upstream)
+    const recorded = lock[file]
+    if (!FORKED_FILES[file] && !blob && !recorded) continue
+    
+    let state
+    if (!blob) {
+      state = 'removed'
+    } else if (!recorded || recorded.upstream !== upstream) {
+      state = 'unrecorded'
+    } else {
+      state = recorded.blob === blob ? 'ok' : 'changed'
+    }
+    overrides.push({ file, upstream, blob, recorded, state })
+  }
+  return overrides
+}
+
+function describeOverride(override) {
+  const since = override.state === 'changed' ? ` (recorded at ${override.recorded.commit.slice(0, 7)})` : ''
+  return `  ${override.state.padEnd(10)}  ${override.file} -> ${override.upstream}${since}`
+}
+
+// Overrides named on the command line, or all of them
+function selectOverrides(overrides, files) {
+  if (files.length === 0) return overrides
+  
+  return files.map((file) => {
+    const normalized = path.relative('.', file).replace(/\\/g, '/')
+    const override = overrides.find((candidate) => candidate.file === normalized)
+    if (!override) {
+      throw new Error(`${normalized} does not override a quartz_repo file`)
+    }
+    return override
+  })
+}
+
+// Warn before building when quartz_repo changed under an override; never fails the build
+async function checkOverrideDrift() {
+  // Until the lock file exists every override would be reported as unrecorded, so say it once
+  try {
+    await fs.access(OVERRIDES_LOCK_PATH)
+  } catch {
+    // CI builds what gets deployed, so it must not go out unchecked
+    if (noBuildDir) {
+      console.error(`${OVERRIDES_LOCK_PATH} is missing, so overrides can't be checked against quartz_repo. Run \`node build.js overrides accept\` in a checkout with the quartz_repo submodule and commit it.`)
+      process.exit(1)
+    }
+    console.warn(`Note: ${OVERRIDES_LOCK_PATH} is missing, so overrides are not checked against quartz_repo. Run \`node build.js overrides accept\` and commit it.\n`)
+    return
+  }
+  
+  let overrides
+  try {
+    overrides = await findOverrides()
+  } catch (error) {
+    console.warn(`Warning: Could not check overrides against quartz_repo: ${error.message}`)
+    return
+  }
+  
+  const stale = overrides.filter((override) => override.state !== 'ok')
+  if (stale.length === 0) return
+  
+  console.warn(`Warning: ${stale.length} override(s) may be out of date with quartz_repo:`)
+  for (const override of stale) {
+    console.warn(describeOverride(override))
+  }
+  console.warn('Review with `node build.js overrides diff`, then record with `node build.js overrides accept <file>`\n')
+}
+
+/**
+ * `node build.js overrides [status]` lists overrides, `overrides diff [file...]` shows what changed
+ * upstream since each was recorded, `overrides accept [file...]` records the current upstream
+ */
+async function overridesCommand([action = 'status', ...files]) {
+  const overrides = await findOverrides()
+  
+  if (action === 'status') {
+    console.log('Overrides of quartz_repo files:')
+    for (const override of overrides) {
+      console.log(describeOverride(override))
+    }
+  } else if (action === 'diff') {
+    const selected = files.length > 0
+      ? selectOverrides(overrides, files)
+      : overrides.filter((override) => override.state === 'changed')
+    
+    for (const override of selected) {
+      console.log(`\n${describeOverride(override)}`)
+      if (!override.recorded || override.state === 'unrecorded') {
+        console.log('    No recorded upstream version to compare against')
+        continue
+      }
+      const diff = await git(['-C', 'quartz_repo', 'diff', override.recorded.commit, 'HEAD', '--', override.recorded.upstream])
+      console.log(diff || '    Upstream is unchanged')
+    }
+  } else if (action === 'accept') {
+    const commit = (await git(['-C', 'quartz_repo', 'rev-parse', 'HEAD'])).trim()
+    const lock = files.length > 0 ? await loadOverridesLock() : {}
+    
+    for (const override of selectOverrides(overrides, files)) {
+      if (!override.blob) {
+        delete lock[override.file]
+        console.log(`Dropped ${override.file} (${override.upstream} no longer exists upstream)`)
+        continue
+      }
+      lock[override.file] = { upstream: override.upstream, blob: override.blob, commit }
+      console.log(`Recorded ${override.file} against ${override.upstream} at ${commit.slice(0, 7)}`)
+    }
+    
+    const sorted = Object.fromEntries(Object.entries(lock).sort(([a], [b]) => a.localeCompare(b)))
+    await fs.writeFile(OVERRIDES_LOCK_PATH, JSON.stringify(sorted, null, 2) + '\n')
+  } else {
+    throw new Error(`Unknown overrides action "${action}" (expected status, diff or accept)`)
+  }
+}
+
+const TEMPLATES_DIR = path.join('.foam', 'templates')
+
+// Kinds of `node build.js new` that don't share their template's name
+const TEMPLATE_KINDS = {
+  news: 'news-post.md',
+  reference: 'reference-page.md'
+}
+
+// Same slug Foam gives $FOAM_SLUG
+function slugify(title) {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+// The Foam template variables templates use, for a note created now
+function templateVariables(title, now = new Date()) {
+  const pad = (value) => String(value).padStart(2, '0')
+  const offset = -now.getTimezoneOffset()
+  const timezoneOffset = `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  
+  return {
+    FOAM_TITLE: title,
+    FOAM_SLUG: slugify(title),
+    FOAM_DATE_YEAR: String(now.getFullYear()),
+    FOAM_DATE_MONTH: pad(now.getMonth() + 1),
+    FOAM_DATE_MONTH_NAME: now.toLocaleString('en-US', { month: 'long' }),
+    FOAM_DATE_MONTH_NAME_SHORT: now.toLocaleString('en-US', { month: 'short' }),
+    FOAM_DATE_DATE: pad(now.getDate()),
+    FOAM_DATE_DAY_NAME: now.toLocaleString('en-US', { weekday: 'long' }),
+    FOAM_DATE_DAY_NAME_SHORT: now.toLocaleString('en-US', { weekday: 'short' }),
+    FOAM_DATE_HOUR: pad(now.getHours()),
+    FOAM_DATE_MINUTE: pad(now.getMinutes()),
+    FOAM_DATE_SECOND: pad(now.getSeconds()),
+    CURRENT_TIMEZONE_OFFSET: timezoneOffset
+  }
+}
+
+// Replaces `$NAME` and `${NAME}`; unknown variables are left as written
+function substituteVariables(text, variables) {
+  return text.replace(/\$\{([A-Z_]+)\}|\$([A-Z_]+)/g, (match, braced, bare) => variables[braced ?? bare] ?? match)
+}
+
+// Highest `sortorder` among the pages of a folder, plus one
+// The YAML between a page's opening `---` line and the next one, or null without frontmatter
+function frontmatterBlock(text) {
+  const lines = text.split(/\r?\n/)
+  if (lines[0] !== '---') return null
+  const end = lines.indexOf('---', 1)
+  return end === -1 ? null : lines.slice(1, end).join('\n')
+}
+
+async function nextSortOrder(dir) {
+  let highest = 0
+  let entries = []
+  try {
+    entries = await fs.readdir(dir)
+  } catch {} // new folder
+  
+  for (const entry of entries) {
+    if (!entry.endsWith('.md') || entry === 'index.md') continue
+    const block = frontmatterBlock(await fs.readFile(path.join(dir, entry), 'utf8'))
+    let data
+    try {
+      data = block && yaml.load(block)
+    } catch {
+      continue // Quartz reports malformed frontmatter when it builds
+    }
+    // Like the explorer, only numeric values count
+    if (typeof data?.sortorder === 'number' && Number.isFinite(data.sortorder)) {
+      highest = Math.max(highest, data.sortorder)
+    }
+  }
+  return Math.floor(highest) + 1
+}
+
+/**
+ * `node build.js new <kind> <title>` creates a page from `.foam/templates/<kind>.md` (or the
+ * template named in TEMPLATE_KINDS) at the template's `foam_template.filepath`, with Foam's
+ * variables filled in, an empty `sortorder` set to the next free one in the target folder, and
+ * the `foam_template` block removed as Foam does. Existing files are never overwritten.
+ */
+async function newPageCommand([kind, ...titleWords]) {
+  const title = titleWords.join(' ').trim()
+  if (!kind || !title) {
+    throw new Error('Usage: node build.js new <kind> <title>')
+  }
+  
+  const templateName = TEMPLATE_KINDS[kind] ?? `${kind}.md`
+  let template
+  try {
+    template = await fs.readFile(path.join(TEMPLATES_DIR, templateName), 'utf8')
+  } catch {
+    const templates = (await fs.readdir(TEMPLATES_DIR)).map((file) => file.replace(/\.md$/, ''))
+    const kinds = [...new Set([...Object.keys(TEMPLATE_KINDS), ...templates])]
+    throw new Error(`Unknown kind "${kind}" (expected one of: ${kinds.join(', ')})`)
+  }
+  
+  const templateLines = template.replace(/\r\n/g, '\n').split('\n')
+  const frontmatterEnd = templateLines[0] === '---' ? templateLines.indexOf('---', 1) : -1
+  if (frontmatterEnd === -1) {
+    throw new Error(`${templateName} has no frontmatter`)
+  }
+  
+  // In frontmatter the title becomes a quoted YAML string, so quotes and colons in it stay valid
+  const variables = templateVariables(title)
+  const frontmatterVariables = { ...variables, FOAM_TITLE: JSON.stringify(title) }
+  const lines = templateLines.map((line, index) =>
+    substituteVariables(line, index < frontmatterEnd ? frontmatterVariables : variables)
+  )
+  
+  // Drop foam_template and the lines indented under it, keeping its filepath
+  let filePath = null
+  const start = lines.indexOf('foam_template:')
+  if (start !== -1 && start < frontmatterEnd) {
+    let end = start + 1
+    while (end < frontmatterEnd && /^\s/.test(lines[end])) {
+      const match = lines[end].match(/^\s+filepath:\s*(.+?)\s*$/)
+      if (match) filePath = match[1]
+      end++
+    }
+    lines.splice(start, end - start)
+  }
+  if (!filePath) {
+    throw new Error(`${templateName} does not set foam_template.filepath, so there is nowhere to create the page`)
+  }
+  
+  const frontmatter = lines.slice(0, lines.indexOf('---', 1))
+  const sortOrderLine = frontmatter.findIndex((line) => /^sortorder:\s*$/.test(line))
+  if (sortOrderLine !== -1) {
+    lines[sortOrderLine] = `sortorder: ${await nextSortOrder(path.dirname(filePath))}`
+  }
+  
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  try {
+    await fs.writeFile(filePath, lines.join('\n'), { flag: 'wx' })
+  } catch (error) {
+    if (error.code === 'EEXIST') {
+      throw new Error(`${filePath} already exists; not overwriting it`)
+    }
+    throw error
+  }
+  console.log(`Created ${filePath}`)
+}
+
 async function installDependencies(cwd) {
   console.log(`Installing dependencies in ${cwd}...`)
   
@@ -207,15 +751,39 @@ async function installDependencies(cwd) {
   })
 }
 
-async function runQuartzBuild() {
-  console.log('\nRunning Quartz build...')
-  
+// Write the pages Quartz can only build from files on disk (content/api/ from cesium-src,
+// content/errors/ from data/diagnostics) before Quartz starts. Runs with Quartz's own tsx, so the
+// generators are the same TypeScript modules the plugins that render the pages live in.
+async function generateContent(cwd) {
+  return new Promise((resolve, reject) => {
+    const child = spawn('npx', ['tsx', 'generate-content.ts'], {
+      stdio: 'inherit',
+      cwd,
+      shell: true // Use shell to ensure npx is found on Windows
+    })
+    
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`Generating content failed with code ${code}`))
+      }
+    })
+    
+    child.on('error', reject)
+  })
+}
+
+// Status lines from build.js itself, set apart from Quartz's own output
+function status(message) {
+  console.log(`\n[build.js] ${message}`)
+}
+
+// Directory, arguments and environment of the Quartz CLI process
+function quartzInvocation() {
   // Run npm command in appropriate directory
   const cwd = noBuildDir ? 'quartz_repo' : path.join(BUILD_DIR, 'quartz_repo')
   
-  // Install dependencies first
-  await installDependencies(cwd)
-  
   // Determine node command based on flags - run quartz CLI directly
   // Point to content directory relative to quartz_repo
   const contentDir = noBuildDir ? '../content' : '../content'
@@ -231,11 +799,38 @@ async function runQuartzBuild() {
     nodeCommand = ['quartz/bootstrap-cli.mjs', 'build', '-d', contentDir]
   }
   
+  // Timings only cover files parsed in the main process, so keep Quartz out of worker threads
+  if (timings) {
+    nodeCommand.push('--concurrency', '1')
+  }
+  
+  // Tell quartz.config.ts to turn validation warnings into build failures in CI mode, which
+  // plugins the profile enables, and whether to report plugin timings
+  const env = {
+    ...process.env,
+    CESIUM_STRICT_BUILD: noBuildDir ? '1' : '',
+    CESIUM_PROFILE: profile,
+    CESIUM_TIMINGS: timings ? '1' : ''
+  }
+  
+  return { cwd, nodeCommand, env }
+}
+
+async function runQuartzBuild() {
+  console.log(`\nRunning Quartz build (profile: ${profile})...`)
+  
+  const { cwd, nodeCommand, env } = quartzInvocation()
+  
+  // Install dependencies first
+  await installDependencies(cwd)
+  await generateContent(cwd)
+  
   return new Promise((resolve, reject) => {
     const child = spawn('node', nodeCommand, {
       stdio: 'inherit',
       cwd,
-      shell: true
+      shell: true,
+      env
     })
     
     child.on('close', (code) => {
@@ -250,85 +845,200 @@ async function runQuartzBuild() {
   })
 }
 
-async function setupWatcher() {
-  console.log('Setting up file watcher for workspace changes...')
+// Workspace paths Quartz only reads when it loads quartz.config.ts (plugins, layout, styles,
+// scripts, data files, the grammar and API sources), so changes to them need a restart.
+// Content changes are picked up by Quartz's own --watch.
+const RESTART_PATHS = ['src/', 'data/', 'grammar/', 'cesium-src/', 'quartz_repo/']
+
+function needsRestart(filePath) {
+  return RESTART_PATHS.some((prefix) => filePath.startsWith(prefix))
+}
+
+/**
+ * Keeps the long-running Quartz process of --serve/--watch going: restarts it when its config or
+ * plugins change, and leaves it alone if it exits on its own (e.g. a config error) until the
+ * next such change
+ */
+function createQuartzSupervisor() {
+  const { cwd, nodeCommand, env } = quartzInvocation()
+  let child = null
+  let started = false
   
-  // Create gitignore filter for the watcher
-  const ignoreFilter = await createGitignoreFilter()
+  async function start() {
+    started = true
+    try {
+      await generateContent(cwd)
+    } catch (error) {
+      status(`${error.message} - waiting for a config or plugin change to restart`)
+      return
+    }
+    
+    // No shell, so signals reach Quartz itself
+    const current = spawn(process.execPath, nodeCommand, { stdio: 'inherit', cwd, env })
+    child = current
+    status(`Quartz running (pid ${current.pid}, profile: ${profile})`)
+    
+    current.on('exit', (code, signal) => {
+      if (child !== current) return // stopped by us
+      child = null
+      status(`Quartz exited with ${signal ?? `code ${code}`} - waiting for a config or plugin change to restart`)
+    })
+    current.on('error', (error) => {
+      status(`Could not start Quartz: ${error.message}`)
+    })
+  }
   
-  const watcher = chokidar.watch('.', {
-    ignored: (path, stats) => {
-      const relativePath = path.replace(/\\/g, '/')
-      // Skip empty paths and current directory
-      if (!relativePath || relativePath === '.' || relativePath === './') {
-        return false
-      }
-      // Remove leading ./ if present
-      const cleanPath = relativePath.startsWith('./') ? relativePath.slice(2) : relativePath
-      return ignoreFilter.ignores(cleanPath)
+  async function stop() {
+    const current = child
+    child = null
+    if (!current || current.exitCode !== null || current.signalCode !== null) return
+    
+    await new Promise((resolve) => {
+      // Give Quartz a moment to close its server, then force it
+      const timer = setTimeout(() => current.kill('SIGKILL'), 5000)
+      current.once('exit', () => {
+        clearTimeout(timer)
+        resolve()
+      })
+      current.kill('SIGTERM')
+    })
+  }
+  
+  // Starts and restarts take turns, so a change synced while pages are being generated restarts
+  // the Quartz that start brings up instead of starting a second one next to it
+  let queue = Promise.resolve()
+  function enqueue(task) {
+    queue = queue.then(task)
+    return queue
+  }
+  
+  return {
+    async start() {
+      await installDependencies(cwd)
+      await enqueue(start)
     },
-    persistent: true
-  })
+    stop,
+    async restart(reason) {
+      // Changes synced before the first start are picked up by it
+      if (!started) return
+      await enqueue(async () => {
+        status(`${reason} - restarting Quartz...`)
+        await stop()
+        await start()
+      })
+    }
+  }
+}
+
+async function setupWatcher(onSynced = async () => {}) {
+  console.log('Setting up file watcher for workspace changes...')
   
-  let debounceTimer
-  let isReady = false
+  // Create gitignore filter for the watcher; replaced when .gitignore changes
+  let ignoreFilter = await createGitignoreFilter()
   
-  // Wait for initial scan to complete
-  watcher.on('ready', () => {
-    isReady = true
-    console.log('File watcher ready - monitoring for changes...')
-  })
+  // Last event per path within the debounce window
+  const pending = new Map()
+  let debounceTimer
+  let syncing = Promise.resolve()
+  let watcher
   
-  watcher.on('all', (event, filePath) => {
-    // Only log events after initial scan unless verbose mode is enabled
-    if (verbose || (isReady && (event === 'change' || event === 'add' || event === 'unlink'))) {
-      console.log(`${event}: ${filePath}`)
-    }
+  function createWatcher() {
+    let isReady = false
+    const newWatcher = chokidar.watch('.', {
+      ignored: (watchedPath, stats) => {
+        // Chokidar passes absolute paths for removed directories
+        const relativePath = path.relative('.', watchedPath).replace(/\\/g, '/')
+        // Skip empty paths, the current directory and anything outside it
+        if (!relativePath || relativePath.startsWith('../')) {
+          return false
+        }
+        return ignoreFilter.ignores(relativePath)
+      },
+      persistent: true
+    })
     
-    // Only process changes after initial scan
-    if (!isReady) return
+    // Wait for initial scan to complete
+    newWatcher.on('ready', () => {
+      isReady = true
+      console.log('File watcher ready - monitoring for changes...')
+    })
     
-    // Debounce file changes
-    clearTimeout(debounceTimer)
-    debounceTimer = setTimeout(async () => {
-      try {
-        console.log('Syncing workspace changes to build directory...')
-        
-        // For file changes, just copy the specific file
-        if (event === 'change' || event === 'add') {
-          const buildPath = path.join(BUILD_DIR, filePath)
-          await copyFile(filePath, buildPath)
-          
-          // If it's a src file, also copy customizations to quartz_repo
-          if (filePath.startsWith('src/')) {
-            console.log('Source file changed, updating customizations in quartz_repo...')
-            await copyCustomizations()
-          }
-        } else if (event === 'unlink') {
-          // Remove file from build directory
-          const buildPath = path.join(BUILD_DIR, filePath)
-          try {
-            await fs.unlink(buildPath)
-            console.log(`Removed ${buildPath}`)
-          } catch {}
-          
-          // If it's a src file, also update customizations
-          if (filePath.startsWith('src/')) {
-            console.log('Source file removed, updating customizations in quartz_repo...')
-            await copyCustomizations()
+    newWatcher.on('all', (event, filePath) => {
+      // Only log events after initial scan unless verbose mode is enabled
+      if (verbose || isReady) {
+        console.log(`${event}: ${path.relative('.', filePath)}`)
+      }
+      
+      // Only process changes after initial scan
+      if (!isReady) return
+      
+      pending.set(path.relative('.', filePath).replace(/\\/g, '/'), event)
+      clearTimeout(debounceTimer)
+      debounceTimer = setTimeout(() => {
+        const events = new Map(pending)
+        pending.clear()
+        // One sync at a time, in order
+        syncing = syncing.then(() => syncChanges(events))
+      }, 500) // 500ms debounce
+    })
+    
+    return newWatcher
+  }
+  
+  async function syncChanges(events) {
+    try {
+      console.log(`Syncing ${events.size} workspace change(s) to build directory...`)
+      
+      if (events.has('.gitignore')) {
+        // Newly ignored files are pruned and newly unignored ones copied by a full mirror.
+        // Chokidar never descended into directories that were ignored, so start a new watcher.
+        console.log('.gitignore changed, reloading ignore rules...')
+        ignoreFilter = await createGitignoreFilter()
+        await watcher.close()
+        watcher = createWatcher()
+        await mirrorWorkspace()
+      } else {
+        for (const [filePath, event] of events) {
+          if (event === 'add' || event === 'change') {
+            await mirrorFile(filePath)
+          } else if (event === 'unlink') {
+            await pruneFile(filePath)
+          } else if (event === 'addDir') {
+            await fs.mkdir(path.join(BUILD_DIR, filePath), { recursive: true })
+          } else if (event === 'unlinkDir') {
+            await pruneDirectory(filePath)
           }
         }
-      } catch (error) {
-        console.error('Error syncing changes:', error.message)
+        await saveManifest()
       }
-    }, 500) // 500ms debounce
-  })
+      
+      // If src files changed, also copy customizations to quartz_repo
+      if ([...events.keys()].some((filePath) => filePath.startsWith('src/'))) {
+        console.log('Source files changed, updating customizations in quartz_repo...')
+        await copyCustomizations()
+      }
+      
+      await onSynced([...events.keys()])
+    } catch (error) {
+      console.error('Error syncing changes:', error.message)
+    }
+  }
+  
+  watcher = createWatcher()
   
-  return watcher
+  return {
+    close: async () => {
+      clearTimeout(debounceTimer)
+      await watcher.close()
+    }
+  }
 }
 
 async function main() {
   try {
+    await checkProfile()
+    await checkOverrideDrift()
+    
     if (!noBuildDir) {
       await mirrorWorkspace()
     }
@@ -336,15 +1046,31 @@ async function main() {
     await copyCustomizations()
     
     if ((watch || serve) && !noBuildDir) {
+      const quartz = createQuartzSupervisor()
+      
       // Setup file watcher for workspace changes (only when using build dir)
-      const watcher = await setupWatcher()
+      const watcher = await setupWatcher(async (changedPaths) => {
+        const trigger = changedPaths.find(needsRestart)
+        if (trigger) {
+          await quartz.restart(`${trigger} changed`)
+        }
+      })
       
-      // Setup cleanup on exit
-      process.on('SIGINT', () => {
-        console.log('\nShutting down...')
-        watcher.close()
+      // Setup cleanup on exit; a second signal exits right away
+      let shuttingDown = false
+      const shutdown = async (signal) => {
+        if (shuttingDown) process.exit(1)
+        shuttingDown = true
+        status(`${signal} received - shutting down...`)
+        await watcher.close()
+        await quartz.stop()
         process.exit(0)
-      })
+      }
+      process.on('SIGINT', () => shutdown('SIGINT'))
+      process.on('SIGTERM', () => shutdown('SIGTERM'))
+      
+      await quartz.start()
+      return
     }
     
     await runQuartzBuild()
@@ -358,4 +1084,18 @@ async function main() {
   }
 }
 
-main()
\ No newline at end of file
+// Subcommands such as `node build.js overrides diff`; anything else builds
+const COMMANDS = {
+  overrides: overridesCommand,
+  new: newPageCommand
+}
+
+const command = COMMANDS[args[0]]
+if (command) {
+  command(args.slice(1)).catch((error) => {
+    console.error(error.message)
+    process.exit(1)
+  })
+} else {
+  main()
+}
\ No newline at end of file
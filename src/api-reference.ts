@@ -0,0 +1,354 @@
+import { QuartzEmitterPlugin, QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { FullSlug, joinSegments } from "./quartz/util/path"
+import { write } from "./quartz/plugins/emitters/helpers"
+import { Root as MdRoot, RootContent as MdContent, PhrasingContent } from "mdast"
+import { createHash } from "crypto"
+import * as fs from "fs"
+import * as path from "path"
+
+export type ApiKind = "function" | "struct" | "trait"
+
+export interface ApiParam {
+  name: string
+  description: string
+}
+
+/**
+ * A documented declaration found in the Cesium sources.
+ * Stored verbatim under the `api` frontmatter key of each generated page.
+ */
+export interface ApiEntry {
+  kind: ApiKind
+  name: string
+  owner?: string
+  module: string
+  signature: string
+  params: ApiParam[]
+  returns?: string
+  file: string
+  line: number
+  url: string
+}
+
+interface GenerateOptions {
+  sourceDir: string
+  outputDir: string
+  repoUrl: string
+  extensions: string[]
+  excludeDirs: string[]
+}
+
+const defaultGenerateOptions: Omit<GenerateOptions, "sourceDir" | "outputDir"> = {
+  repoUrl: "https://github.com/cesiumlang/cesium/blob/main",
+  extensions: [".cs", ".czm"],
+  excludeDirs: [".git", "build", "buildtools", "node_modules"],
+}
+
+// Blank out comments and string literals (keeping offsets) so braces inside them don't count
+function maskNonCode(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/g, (m) =>
+    m.replace(/[^\n]/g, " "),
+  )
+}
+
+function findBlockEnd(masked: string, from: number): number {
+  const open = masked.indexOf("{", from)
+  const stop = masked.indexOf(";", from)
+  if (open === -1 || (stop !== -1 && stop < open)) return from
+
+  let depth = 0
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === "{") depth++
+    if (masked[i] === "}" && --depth === 0) return i
+  }
+  return masked.length
+}
+
+function parseDocComment(body: string) {
+  const lines = body.split("\n").map((line) => line.replace(/^\s*\*? ?/, "").trimEnd())
+  const description: string[] = []
+  const params: ApiParam[] = []
+  let returns: string | undefined
+  let current: "description" | "param" | "return" = "description"
+
+  for (const line of lines) {
+    const param = line.match(/^@param\s+(\S+)\s*(.*)$/)
+    const ret = line.match(/^@returns?\s*(.*)$/)
+    if (param) {
+      params.push({ name: param[1], description: param[2] })
+      current = "param"
+    } else if (ret) {
+      returns = ret[1]
+      current = "return"
+    } else if (current === "param" && line.trim()) {
+      params[params.length - 1].description += " " + line.trim()
+    } else if (current === "return" && line.trim()) {
+      returns += " " + line.trim()
+    } else if (current === "description") {
+      description.push(line)
+    }
+  }
+
+  return { description: description.join("\n").trim(), params, returns }
+}
+
+function parseDeclaration(line: string): Pick<ApiEntry, "kind" | "name" | "signature"> | null {
+  const signature = line.replace(/\s*[{;].*$/, "").trim()
+
+  const type = signature.match(/^(?:\w+\s+)*?(struct|trait)\s+([A-Za-z_]\w*)/)
+  if (type) {
+    return { kind: type[1] as ApiKind, name: type[2], signature }
+  }
+
+  // `<returns> = [qualifiers] name(params)`, optionally prefixed with `generic<...>`
+  const fn = signature.match(/=\s*(?:[\w.]+\s+)*([A-Za-z_]\w*)\s*\(/)
+  if (fn) {
+    return { kind: "function", name: fn[1], signature }
+  }
+
+  return null
+}
+
+/**
+ * Extract every doc-commented function, struct and trait from one source file.
+ * Declarations nested in a documented struct or trait body are recorded as its members.
+ */
+export function scanApiSource(
+  source: string,
+  file: string,
+  repoUrl: string,
+): (ApiEntry & { description: string })[] {
+  const masked = maskNonCode(source)
+  const module = file.replace(/\.[^./]+$/, "")
+  const entries: (ApiEntry & { description: string })[] = []
+  const owners: { name: string; end: number }[] = []
+
+  for (const match of source.matchAll(/\/\*\*([\s\S]*?)\*\/[ \t]*\r?\n[ \t]*([^\r\n]+)/g)) {
+    const declIndex = match.index! + match[0].length - match[2].length
+    const decl = parseDeclaration(match[2])
+    if (!decl) continue
+
+    while (owners.length > 0 && owners[owners.length - 1].end < declIndex) owners.pop()
+    const owner = owners[owners.length - 1]?.name
+    const line = source.slice(0, declIndex).split("\n").length
+    const { description, params, returns } = parseDocComment(match[1])
+
+    entries.push({
+      ...decl,
+      owner,
+      module,
+      params,
+      returns,
+      file,
+      line,
+      url: `${repoUrl}/${file}#L${line}`,
+      description,
+    })
+
+    if (decl.kind !== "function") {
+      owners.push({ name: decl.name, end: findBlockEnd(masked, declIndex) })
+    }
+  }
+
+  return entries
+}
+
+function walkSources(dir: string, opts: GenerateOptions, rel = ""): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(path.join(dir, rel), { withFileTypes: true })) {
+    const relPath = rel ? `${rel}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      if (!opts.excludeDirs.includes(entry.name)) {
+        files.push(...walkSources(dir, opts, relPath))
+      }
+    } else if (opts.extensions.includes(path.extname(entry.name))) {
+      files.push(relPath)
+    }
+  }
+  return files
+}
+
+function pageName(entry: ApiEntry): string {
+  return entry.owner ? `${entry.owner}-${entry.name}` : entry.name
+}
+
+/**
+ * File path of each entry's page within the output folder, in the same order. Overloads and
+ * other declarations that would share a page (names differing only in case included, for
+ * case-insensitive file systems) each get a hash of their signature appended, so their pages
+ * keep the same path when declarations are added or moved.
+ */
+function pagePaths(entries: ApiEntry[]): string[] {
+  const byPath = new Map<string, number>()
+  for (const entry of entries) {
+    const key = `${entry.module}/${pageName(entry)}`.toLowerCase()
+    byPath.set(key, (byPath.get(key) ?? 0) + 1)
+  }
+
+  const used = new Set<string>()
+  return entries.map((entry) => {
+    let name = pageName(entry)
+    if (byPath.get(`${entry.module}/${name}`.toLowerCase())! > 1) {
+      name += `-${createHash("sha256").update(entry.signature).digest("hex").slice(0, 8)}`
+    }
+    // Identical signatures, e.g. one declaration per platform, are numbered in source order
+    let fp = `${entry.module}/${name}`
+    for (let i = 2; used.has(fp.toLowerCase()); i++) {
+      fp = `${entry.module}/${name}-${i}`
+    }
+    used.add(fp.toLowerCase())
+    return `${fp}.md`
+  })
+}
+
+function pageTitle(entry: ApiEntry): string {
+  const name = entry.owner ? `${entry.owner}.${entry.name}` : entry.name
+  return entry.kind === "function" ? `${name}()` : name
+}
+
+/**
+ * Scan the Cesium sources and write one markdown page per documented declaration.
+ * Quartz only builds pages that exist on disk, so build.js runs this (through
+ * generate-content.ts) before starting Quartz, and the ApiReference transformer renders
+ * the pages. The output folder is owned by this generator and is cleared on every run.
+ */
+export function generateApiPages(
+  userOpts: Partial<GenerateOptions> & Pick<GenerateOptions, "sourceDir" | "outputDir">,
+): ApiEntry[] {
+  const opts: GenerateOptions = { ...defaultGenerateOptions, ...userOpts }
+
+  // Cleared first, so pages from an earlier run don't outlive their sources
+  fs.rmSync(opts.outputDir, { recursive: true, force: true })
+
+  if (!fs.existsSync(opts.sourceDir)) {
+    console.warn(`API sources not found at ${opts.sourceDir}, skipping API reference generation`)
+    return []
+  }
+
+  const entries = walkSources(opts.sourceDir, opts).flatMap((file) =>
+    scanApiSource(fs.readFileSync(path.join(opts.sourceDir, file), "utf-8"), file, opts.repoUrl),
+  )
+  const paths = pagePaths(entries)
+
+  fs.mkdirSync(opts.outputDir, { recursive: true })
+
+  for (const [i, { description, ...entry }] of entries.entries()) {
+    const fp = path.join(opts.outputDir, paths[i])
+    const frontmatter = [
+      "---",
+      `title: ${JSON.stringify(pageTitle(entry))}`,
+      `tags: ${JSON.stringify(["api", entry.kind])}`,
+      `api: ${JSON.stringify(entry)}`,
+      "---",
+    ]
+    fs.mkdirSync(path.dirname(fp), { recursive: true })
+    fs.writeFileSync(fp, frontmatter.join("\n") + "\n\n" + description + "\n")
+  }
+
+  return entries
+}
+
+function text(value: string): PhrasingContent {
+  return { type: "text", value }
+}
+
+function heading(value: string): MdContent {
+  return { type: "heading", depth: 2, children: [text(value)] }
+}
+
+// Render the structured `api` frontmatter around the page's own description
+function renderApiEntry(tree: MdRoot, entry: ApiEntry) {
+  const before: MdContent[] = [{ type: "code", lang: "cesium", value: entry.signature }]
+  const after: MdContent[] = []
+
+  if (entry.params.length > 0) {
+    after.push(heading("Parameters"), {
+      type: "list",
+      ordered: false,
+      spread: false,
+      children: entry.params.map((param) => ({
+        type: "listItem",
+        spread: false,
+        children: [
+          {
+            type: "paragraph",
+            children: [
+              { type: "inlineCode", value: param.name },
+              ...(param.description ? [text(` – ${param.description}`)] : []),
+            ],
+          },
+        ],
+      })),
+    })
+  }
+
+  if (entry.returns) {
+    after.push(heading("Returns"), { type: "paragraph", children: [text(entry.returns)] })
+  }
+
+  after.push(heading("Defined in"), {
+    type: "paragraph",
+    children: [
+      {
+        type: "link",
+        url: entry.url,
+        children: [{ type: "inlineCode", value: `${entry.file}:${entry.line}` }],
+      },
+    ],
+  })
+
+  tree.children = [...before, ...tree.children, ...after]
+}
+
+/**
+ * Custom transformer that renders generated API pages from their `api` frontmatter
+ * Adds the signature block, parameters, return value and a link to the defining file
+ */
+export const ApiReference: QuartzTransformerPlugin = () => {
+  return {
+    name: "ApiReference",
+    markdownPlugins() {
+      return [
+        () => (tree: MdRoot, file) => {
+          const entry = file.data.frontmatter?.api as ApiEntry | undefined
+          if (entry) {
+            renderApiEntry(tree, entry)
+          }
+        },
+      ]
+    },
+  }
+}
+
+/**
+ * Custom emitter that writes a symbol index for all generated API pages
+ * Maps each name, qualified by its module as `<module>:<name>`, to the page slug, kind and
+ * signature of every declaration with that name (more than one for overloads)
+ */
+export const ApiIndex: QuartzEmitterPlugin = () => {
+  return {
+    name: "ApiIndex",
+    async *emit(ctx, content) {
+      const apiIndex: Record<string, any[]> = {}
+
+      for (const [_tree, file] of content) {
+        const entry = file.data.frontmatter?.api as ApiEntry | undefined
+        if (!entry) continue
+
+        const name = entry.owner ? `${entry.owner}.${entry.name}` : entry.name
+        const key = `${entry.module}:${name}`
+        apiIndex[key] = [
+          ...(apiIndex[key] ?? []),
+          { slug: file.data.slug!, kind: entry.kind, signature: entry.signature },
+        ]
+      }
+
+      yield write({
+        ctx,
+        content: JSON.stringify(apiIndex),
+        slug: joinSegments("static", "apiIndex") as FullSlug,
+        ext: ".json",
+      })
+    },
+  }
+}
@@ -0,0 +1,36 @@
+// Named build profiles, picked with `node build.js --profile <name>` and passed to
+// quartz.config.ts in the CESIUM_PROFILE environment variable. They are defined in
+// build-profiles.json so build.js can check the name before it starts: `dev` leaves the expensive
+// output out for fast rebuilds while writing, `prod` builds everything, as deployed.
+import profiles from "./build-profiles.json"
+
+export interface BuildProfile {
+  /**
+   * Render a social preview image for every page with `CustomOgImages`
+   */
+  ogImages: boolean
+  /**
+   * Render math with `Latex`
+   */
+  latex: boolean
+  /**
+   * Emit the RSS feed from `ContentIndex`
+   */
+  rss: boolean
+}
+
+export const buildProfiles: Record<string, BuildProfile> = profiles
+
+/**
+ * The profile named by CESIUM_PROFILE, or `prod` when it isn't set (e.g. Quartz run directly)
+ */
+export function activeBuildProfile(): { name: string; profile: BuildProfile } {
+  const name = process.env.CESIUM_PROFILE || "prod"
+  const profile = buildProfiles[name]
+  if (!profile) {
+    throw new Error(
+      `Unknown build profile "${name}" (expected one of: ${Object.keys(buildProfiles).join(", ")})`,
+    )
+  }
+  return { name, profile }
+}
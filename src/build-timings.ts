@@ -0,0 +1,182 @@
+import { PluginTypes, QuartzEmitterPluginInstance, QuartzTransformerPluginInstance } from "./quartz/plugins/types"
+import { FilePath } from "./quartz/util/path"
+import { Pluggable, PluggableList } from "unified"
+import { performance } from "perf_hooks"
+import chalk from "chalk"
+
+type PluginKind = "transformer" | "emitter"
+
+interface Timing {
+  kind: PluginKind
+  name: string
+  ms: number
+  /**
+   * Files written, for emitters
+   */
+  files: number
+}
+
+// Keyed by kind and name, in the order plugins first ran; cleared after each report
+const timings = new Map<string, Timing>()
+let runningEmitters = 0
+
+function record(kind: PluginKind, name: string, ms: number, files = 0) {
+  const key = `${kind}:${name}`
+  const timing = timings.get(key) ?? { kind, name, ms: 0, files: 0 }
+  timing.ms += ms
+  timing.files += files
+  timings.set(key, timing)
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`
+}
+
+function printReport() {
+  // Rebuilds run emitters one after another, so only report once none has started since
+  if (runningEmitters > 0 || timings.size === 0) {
+    return
+  }
+
+  const all = [...timings.values()]
+  timings.clear()
+
+  const width = Math.max(...all.map((timing) => timing.name.length))
+  const lines = [chalk.bold("Plugin timings:")]
+  for (const kind of ["transformer", "emitter"] as const) {
+    const entries = all.filter((timing) => timing.kind === kind)
+    if (entries.length === 0) {
+      continue
+    }
+
+    lines.push(
+      "",
+      kind === "transformer" ? "  Transformers (summed over all parsed files)" : "  Emitters",
+    )
+    for (const timing of entries) {
+      const files = kind === "emitter" ? `  ${timing.files} file(s)` : ""
+      lines.push(`    ${timing.name.padEnd(width)}  ${chalk.yellow(formatMs(timing.ms).padStart(8))}${files}`)
+    }
+  }
+  console.log(lines.join("\n") + "\n")
+}
+
+// unified plugins are attachers that return the transformer run on each file's tree
+function timeAttacher(name: string, attacher: (...settings: unknown[]) => unknown) {
+  return function (this: unknown, ...settings: unknown[]) {
+    const transformer = attacher.apply(this, settings)
+    if (typeof transformer !== "function") {
+      return transformer
+    }
+
+    return function (this: unknown, tree: unknown, file: unknown) {
+      const start = performance.now()
+      // Callback-style transformers declare a third `next` parameter
+      const result =
+        transformer.length > 2
+          ? new Promise((resolve, reject) =>
+              transformer.call(this, tree, file, (error: unknown, output: unknown) =>
+                error ? reject(error) : resolve(output),
+              ),
+            )
+          : transformer.call(this, tree, file)
+
+      if (result instanceof Promise) {
+        return result.finally(() => record("transformer", name, performance.now() - start))
+      }
+      record("transformer", name, performance.now() - start)
+      return result
+    }
+  }
+}
+
+function timePluggables(name: string, pluggables: PluggableList): PluggableList {
+  return pluggables.map((pluggable): Pluggable => {
+    if (typeof pluggable === "function") {
+      return timeAttacher(name, pluggable) as Pluggable
+    }
+    if (Array.isArray(pluggable) && typeof pluggable[0] === "function") {
+      const [attacher, ...settings] = pluggable
+      return [timeAttacher(name, attacher), ...settings] as Pluggable
+    }
+    // Presets are left untimed
+    return pluggable
+  })
+}
+
+function timeTransformer(plugin: QuartzTransformerPluginInstance): QuartzTransformerPluginInstance {
+  const { name, textTransform, markdownPlugins, htmlPlugins } = plugin
+  return {
+    ...plugin,
+    textTransform:
+      textTransform &&
+      ((...args: Parameters<typeof textTransform>) => {
+        const start = performance.now()
+        const result = textTransform(...args)
+        record("transformer", name, performance.now() - start)
+        return result
+      }),
+    markdownPlugins: markdownPlugins && ((ctx) => timePluggables(name, markdownPlugins(ctx))),
+    htmlPlugins: htmlPlugins && ((ctx) => timePluggables(name, htmlPlugins(ctx))),
+  }
+}
+
+// Counts on call rather than when iteration starts, so a report can't slip in between emitters
+function timeEmitted(
+  name: string,
+  emitted: Promise<FilePath[]> | AsyncGenerator<FilePath>,
+): AsyncGenerator<FilePath> {
+  runningEmitters++
+  const start = performance.now()
+  // Emitters run side by side on a full build; list them in config order, not finishing order
+  record("emitter", name, 0)
+
+  return (async function* () {
+    let files = 0
+    try {
+      if (Symbol.asyncIterator in emitted) {
+        for await (const file of emitted) {
+          files++
+          yield file
+        }
+      } else {
+        for (const file of await emitted) {
+          files++
+          yield file
+        }
+      }
+    } finally {
+      record("emitter", name, performance.now() - start, files)
+      runningEmitters--
+      setTimeout(printReport)
+    }
+  })()
+}
+
+function timeEmitter(plugin: QuartzEmitterPluginInstance): QuartzEmitterPluginInstance {
+  const { name, emit, partialEmit } = plugin
+  return {
+    ...plugin,
+    emit: (...args: Parameters<typeof emit>) => timeEmitted(name, emit(...args)),
+    partialEmit:
+      partialEmit &&
+      ((...args: Parameters<typeof partialEmit>) => {
+        // null means the emitter has nothing to do for this change
+        const emitted = partialEmit(...args)
+        return emitted === null ? null : timeEmitted(name, emitted)
+      }),
+  }
+}
+
+/**
+ * Wraps every transformer and emitter so each build (and rebuild in --watch) ends with a report
+ * of the time each one took and how many files each emitter wrote. Only covers files parsed in
+ * this process, so build.js runs Quartz with `--concurrency 1` when timing.
+ */
+export function withTimings(plugins: PluginTypes): PluginTypes {
+  return {
+    ...plugins,
+    transformers: plugins.transformers.map(timeTransformer),
+    emitters: plugins.emitters.map(timeEmitter),
+  }
+}
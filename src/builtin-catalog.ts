@@ -0,0 +1,243 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { FullSlug } from "./quartz/util/path"
+import { Root as MdRoot, RootContent as MdContent, PhrasingContent, TableRow } from "mdast"
+import { visit } from "unist-util-visit"
+import { slug as slugAnchor } from "github-slugger"
+import yaml from "js-yaml"
+import * as fs from "fs"
+import * as path from "path"
+
+export interface BuiltinParam {
+  name: string
+  type?: string
+  description?: string
+}
+
+/**
+ * One built-in function, as stored in data/builtins/<name>.yaml
+ */
+export interface BuiltinEntry {
+  name: string
+  category: string
+  signature: string | string[]
+  summary?: string
+  since?: string
+  parameters?: BuiltinParam[]
+  errors?: string[]
+  examples?: string[]
+}
+
+interface Options {
+  /**
+   * Catalog entries, usually from loadBuiltinCatalog()
+   */
+  entries: BuiltinEntry[]
+  /**
+   * Code language for signatures and examples
+   */
+  lang: string
+}
+
+const defaultOptions: Omit<Options, "entries"> = {
+  lang: "cesium",
+}
+
+type Section = "index" | "functions"
+
+const DIRECTIVE = /^\{\{builtins:(\w+)\}\}$/
+
+/**
+ * Read every .yaml/.yml/.json file in `dir` as a BuiltinEntry, sorted by name.
+ * Throws on entries missing a name, category or signature so bad data fails the build.
+ */
+export function loadBuiltinCatalog(dir: string): BuiltinEntry[] {
+  if (!fs.existsSync(dir)) {
+    console.warn(`Built-in catalog not found at ${dir}`)
+    return []
+  }
+
+  const entries = fs
+    .readdirSync(dir)
+    .filter((name) => /\.(ya?ml|json)$/.test(name))
+    .map((name) => {
+      const entry = yaml.load(fs.readFileSync(path.join(dir, name), "utf-8")) as BuiltinEntry
+      for (const field of ["name", "category", "signature"] as const) {
+        if (!entry?.[field]) {
+          throw new Error(`Built-in catalog entry ${name} is missing "${field}"`)
+        }
+      }
+      return entry
+    })
+
+  return entries.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function builtinAnchor(entry: BuiltinEntry): string {
+  return slugAnchor(entry.name)
+}
+
+/**
+ * Symbol table entries for CodeCrossReferences, pointing at each function's section on `slug`
+ */
+export function catalogSymbols(entries: BuiltinEntry[], slug: string) {
+  return Object.fromEntries(
+    entries.map((entry) => [entry.name, { slug: slug as FullSlug, anchor: builtinAnchor(entry) }]),
+  )
+}
+
+function signatures(entry: BuiltinEntry): string[] {
+  return Array.isArray(entry.signature) ? entry.signature : [entry.signature]
+}
+
+function text(value: string): PhrasingContent {
+  return { type: "text", value }
+}
+
+function strong(value: string): MdContent {
+  return { type: "paragraph", children: [{ type: "strong", children: [text(value)] }] }
+}
+
+function cell(...children: PhrasingContent[]) {
+  return { type: "tableCell" as const, children }
+}
+
+function renderIndex(entries: BuiltinEntry[], lang: string): MdContent {
+  const header: TableRow = {
+    type: "tableRow",
+    children: [cell(text("Function")), cell(text("Signature")), cell(text("Description")), cell(text("Since"))],
+  }
+  const rows: TableRow[] = entries.map((entry) => ({
+    type: "tableRow",
+    children: [
+      cell({
+        type: "link",
+        url: `#${builtinAnchor(entry)}`,
+        children: [{ type: "inlineCode", value: entry.name }],
+      }),
+      cell({ type: "inlineCode", value: `${signatures(entry)[0]}{:${lang}}` }),
+      cell(text(entry.summary ?? "")),
+      cell(text(entry.since ?? "")),
+    ],
+  }))
+
+  return { type: "table", align: ["left", "left", "left", "left"], children: [header, ...rows] }
+}
+
+function renderFunction(entry: BuiltinEntry, lang: string): MdContent[] {
+  const nodes: MdContent[] = [
+    {
+      type: "heading",
+      depth: 3,
+      children: [{ type: "inlineCode", value: entry.name }],
+      data: { hProperties: { id: builtinAnchor(entry) } },
+    },
+    { type: "code", lang, value: signatures(entry).join("\n") },
+  ]
+
+  if (entry.summary) {
+    nodes.push({ type: "paragraph", children: [text(entry.summary)] })
+  }
+
+  if (entry.parameters?.length) {
+    nodes.push(strong("Parameters"), {
+      type: "list",
+      ordered: false,
+      spread: false,
+      children: entry.parameters.map((param) => ({
+        type: "listItem",
+        spread: false,
+        children: [
+          {
+            type: "paragraph",
+            children: [
+              { type: "inlineCode", value: param.type ? `${param.type} ${param.name}` : param.name },
+              ...(param.description ? [text(` – ${param.description}`)] : []),
+            ],
+          },
+        ],
+      })),
+    })
+  }
+
+  if (entry.errors?.length) {
+    nodes.push(strong("Errors"), {
+      type: "list",
+      ordered: false,
+      spread: false,
+      children: entry.errors.map((error) => ({
+        type: "listItem",
+        spread: false,
+        children: [{ type: "paragraph", children: [text(error)] }],
+      })),
+    })
+  }
+
+  if (entry.examples?.length) {
+    nodes.push(strong(entry.examples.length > 1 ? "Examples" : "Example"))
+    for (const example of entry.examples) {
+      nodes.push({ type: "code", lang, value: example.trimEnd() })
+    }
+  }
+
+  if (entry.since) {
+    nodes.push({ type: "paragraph", children: [{ type: "emphasis", children: [text(`Since ${entry.since}`)] }] })
+  }
+
+  return nodes
+}
+
+// One `## Category` section per category, functions sorted by name within each
+function renderFunctions(entries: BuiltinEntry[], lang: string): MdContent[] {
+  const categories = [...new Set(entries.map((entry) => entry.category))].sort()
+  return categories.flatMap((category) => [
+    { type: "heading", depth: 2, children: [text(category)] } as MdContent,
+    ...entries
+      .filter((entry) => entry.category === category)
+      .flatMap((entry) => renderFunction(entry, lang)),
+  ])
+}
+
+/**
+ * Custom transformer that renders the built-in function catalog into a page
+ * `{{builtins:index}}` becomes an alphabetical index table and `{{builtins:functions}}` becomes one
+ * section per function with a stable anchor. Runs before TableOfContents, so each function's
+ * heading is in the page's TOC and the explorer lists it under the page like any other heading
+ */
+export const BuiltinCatalog: QuartzTransformerPlugin<Partial<Options> & Pick<Options, "entries">> = (
+  userOpts,
+) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+
+  return {
+    name: "BuiltinCatalog",
+    markdownPlugins() {
+      return [
+        () => (tree: MdRoot, file) => {
+          const directives: { parent: MdRoot; index: number; section: string }[] = []
+          visit(tree, "paragraph", (node, index, parent) => {
+            const [child] = node.children
+            const match = node.children.length === 1 && child.type === "text" && child.value.trim().match(DIRECTIVE)
+            if (match && parent && index !== undefined) {
+              directives.push({ parent: parent as MdRoot, index, section: match[1] })
+            }
+          })
+          if (directives.length === 0) return
+
+          // Replace back to front so earlier indices stay valid
+          for (const { parent, index, section } of directives.reverse()) {
+            const renderers: Record<Section, () => MdContent[]> = {
+              index: () => [renderIndex(opts.entries, opts.lang)],
+              functions: () => renderFunctions(opts.entries, opts.lang),
+            }
+            const render = renderers[section as Section]
+            if (!render) {
+              console.warn(`Unknown builtins section "${section}" in ${file.data.filePath}`)
+              continue
+            }
+            parent.children.splice(index, 1, ...(render() as MdRoot["children"]))
+          }
+        },
+      ]
+    },
+  }
+}
@@ -0,0 +1,134 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { Root as MdRoot, RootContent as MdContent, Code, Parent } from "mdast"
+import { visit } from "unist-util-visit"
+
+// @ts-ignore
+import script from "./scripts/code-groups.inline"
+
+interface Options {
+  /**
+   * Tab labels for code blocks without a `title="..."`, keyed by language
+   */
+  langLabels: Record<string, string>
+}
+
+const defaultOptions: Options = {
+  langLabels: {
+    cesium: "Cesium",
+    c: "C",
+    cpp: "C++",
+  },
+}
+
+function metaValue(meta: string, key: string): string | undefined {
+  const match = meta.match(new RegExp(`(?:^|\\s)${key}=(?:"([^"]*)"|'([^']*)'|(\\S+))`))
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined
+}
+
+function removeMeta(meta: string, key: string): string {
+  return meta
+    .replace(new RegExp(`(?:^|\\s)${key}=(?:"[^"]*"|'[^']*'|\\S+)`), "")
+    .trim()
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function groupOf(node: MdContent): string | undefined {
+  return node.type === "code" && node.meta ? metaValue(node.meta, "group") : undefined
+}
+
+function renderGroup(group: string, blocks: Code[], opts: Options): MdContent[] {
+  const labels = blocks.map((block) => {
+    const title = block.meta ? metaValue(block.meta, "title") : undefined
+    return title ?? opts.langLabels[block.lang ?? ""] ?? block.lang ?? "Code"
+  })
+
+  const tabs = labels
+    .map(
+      (label, i) =>
+        `<button type="button" role="tab" class="code-group-tab${i === 0 ? " active" : ""}"` +
+        ` data-label="${escapeHtml(label)}" aria-selected="${i === 0}">${escapeHtml(label)}</button>`,
+    )
+    .join("")
+
+  const nodes: MdContent[] = [
+    {
+      type: "html",
+      value:
+        `<div class="code-group" data-group="${escapeHtml(group)}">` +
+        `<div class="code-group-tabs" role="tablist">${tabs}</div>`,
+    },
+  ]
+
+  blocks.forEach((block, i) => {
+    // The tab already shows the title, so keep rehype-pretty-code from adding a caption
+    const meta = removeMeta(removeMeta(block.meta ?? "", "group"), "title")
+    nodes.push(
+      {
+        type: "html",
+        value: `<div class="code-group-panel${i === 0 ? " active" : ""}" role="tabpanel" data-label="${escapeHtml(labels[i])}">`,
+      },
+      { ...block, meta: meta.length > 0 ? meta : null },
+      { type: "html", value: `</div>` },
+    )
+  })
+
+  nodes.push({ type: "html", value: `</div>` })
+  return nodes
+}
+
+/**
+ * Custom transformer that merges adjacent code blocks sharing a `group="..."` meta into one tabbed widget
+ * Tabs are labelled by `title="..."` or by language, and the selected tab is remembered per group
+ * name across pages and SPA navigation
+ */
+export const CodeGroups: QuartzTransformerPlugin<Partial<Options>> = (userOpts) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+
+  return {
+    name: "CodeGroups",
+    markdownPlugins() {
+      return [
+        () => (tree: MdRoot) => {
+          visit(tree, (node) => {
+            if (!("children" in node)) return
+            const parent = node as Parent
+
+            const children: MdContent[] = []
+            for (let i = 0; i < parent.children.length; ) {
+              const group = groupOf(parent.children[i] as MdContent)
+              if (!group) {
+                children.push(parent.children[i++] as MdContent)
+                continue
+              }
+
+              const blocks: Code[] = []
+              while (i < parent.children.length && groupOf(parent.children[i] as MdContent) === group) {
+                blocks.push(parent.children[i++] as Code)
+              }
+              children.push(...renderGroup(group, blocks, opts))
+            }
+            parent.children = children as Parent["children"]
+          })
+        },
+      ]
+    },
+    externalResources() {
+      return {
+        js: [
+          {
+            script,
+            loadTime: "afterDOMReady",
+            contentType: "inline",
+          },
+        ],
+      }
+    },
+  }
+}
@@ -0,0 +1,221 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { FilePath, FullSlug, resolveRelative, slugifyFilePath } from "./quartz/util/path"
+import { Element, ElementContent, Root, Text } from "hast"
+import { SKIP, visit } from "unist-util-visit"
+import GithubSlugger from "github-slugger"
+import matter from "gray-matter"
+import * as fs from "fs"
+import * as path from "path"
+
+interface Options {
+  /**
+   * Content folders whose pages define symbols
+   */
+  folders: string[]
+  /**
+   * Code block languages whose identifiers are linked
+   */
+  langs: string[]
+  /**
+   * Extra definitions from generated content, e.g. catalogSymbols() for the built-in catalog
+   */
+  symbols: Record<string, SymbolTarget>
+}
+
+interface SymbolTarget {
+  slug: FullSlug
+  anchor?: string
+}
+
+const defaultOptions: Options = {
+  folders: ["reference", "api"],
+  langs: ["cesium"],
+  symbols: {},
+}
+
+const IDENTIFIER = /(?<![\w])[A-Za-z_]\w*/g
+// Tokens that start like this are comments or string literals and are never linked
+const NON_CODE_TOKEN = /^\s*(\/\/|\/\*|\*|["'`])/
+
+function listMarkdownFiles(dir: string, rel = ""): string[] {
+  if (!fs.existsSync(path.join(dir, rel))) return []
+
+  const files: string[] = []
+  for (const entry of fs.readdirSync(path.join(dir, rel), { withFileTypes: true })) {
+    const relPath = rel ? `${rel}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      files.push(...listMarkdownFiles(dir, relPath))
+    } else if (entry.name.endsWith(".md")) {
+      files.push(relPath)
+    }
+  }
+  return files
+}
+
+// Heading anchors as rehype-slug will generate them, skipping `#` lines inside code fences
+function headingAnchors(markdown: string): { text: string; id: string; isCode: boolean }[] {
+  const slugger = new GithubSlugger()
+  const headings: { text: string; id: string; isCode: boolean }[] = []
+  let fence: string | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = line.match(/^\s*(```+|~~~+)/)
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1]
+      else if (fenceMatch[1].startsWith(fence)) fence = null
+      continue
+    }
+    if (fence !== null) continue
+
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/)
+    if (heading) {
+      const text = heading[1].replace(/`/g, "")
+      headings.push({ text, id: slugger.slug(text), isCode: /^`[A-Za-z_]\w*`$/.test(heading[1]) })
+    }
+  }
+
+  return headings
+}
+
+/**
+ * Build the identifier -> definition table from the markdown sources:
+ * 1. `symbols` frontmatter, either a list of names (page-level) or a map of name -> heading
+ * 2. headings that consist of a single code identifier, e.g. ### `printf`
+ * 3. `extra` definitions passed in through the plugin options
+ * 4. generated API pages, through their `api` frontmatter
+ * Earlier sources win when a name is defined more than once.
+ */
+function buildSymbolTable(
+  contentDir: string,
+  folders: string[],
+  extra: Record<string, SymbolTarget>,
+): Map<string, SymbolTarget> {
+  const explicit = new Map<string, SymbolTarget>()
+  const fromHeadings = new Map<string, SymbolTarget>()
+  const fromApi = new Map<string, SymbolTarget>()
+
+  for (const folder of folders) {
+    for (const rel of listMarkdownFiles(path.join(contentDir, folder))) {
+      const relPath = `${folder}/${rel}`
+      const slug = slugifyFilePath(relPath as FilePath)
+      const { data, content } = matter(fs.readFileSync(path.join(contentDir, relPath), "utf-8"))
+      const headings = headingAnchors(content)
+
+      const symbols = data.symbols
+      if (Array.isArray(symbols)) {
+        for (const name of symbols) explicit.set(String(name), { slug })
+      } else if (symbols && typeof symbols === "object") {
+        for (const [name, heading] of Object.entries(symbols)) {
+          const match = headings.find((h) => h.text === heading || h.id === heading)
+          if (!match) {
+            console.warn(`Heading "${heading}" for symbol "${name}" not found in ${relPath}, linking to the page`)
+          }
+          explicit.set(name, { slug, anchor: match?.id })
+        }
+      }
+
+      for (const { text, id, isCode } of headings) {
+        if (isCode && !fromHeadings.has(text)) {
+          fromHeadings.set(text, { slug, anchor: id })
+        }
+      }
+
+      if (data.api && !data.api.owner && !fromApi.has(data.api.name)) {
+        fromApi.set(data.api.name, { slug })
+      }
+    }
+  }
+
+  return new Map([...fromApi, ...Object.entries(extra), ...fromHeadings, ...explicit])
+}
+
+function codeLanguage(pre: Element): string | undefined {
+  const lang = pre.properties?.dataLanguage ?? pre.properties?.["data-language"]
+  return typeof lang === "string" ? lang : undefined
+}
+
+function linkIdentifiers(
+  line: Element,
+  symbols: Map<string, SymbolTarget>,
+  currentSlug: FullSlug,
+) {
+  let lineText = ""
+
+  visit(line, "text", (node: Text, index, parent) => {
+    const text = node.value
+    const previousText = lineText
+    lineText += text
+    if (!parent || index === undefined) return
+    if (NON_CODE_TOKEN.test(parent.type === "element" ? textOf(parent as Element) : text)) return
+
+    const pieces: ElementContent[] = []
+    let last = 0
+    for (const match of text.matchAll(IDENTIFIER)) {
+      const target = symbols.get(match[0])
+      if (!target || target.slug === currentSlug) continue
+
+      // Member access (`arena.alloc`) refers to something else
+      const prevChar = match.index! > 0 ? text[match.index! - 1] : previousText.slice(-1)
+      if (prevChar === ".") continue
+
+      const href =
+        resolveRelative(currentSlug, target.slug) + (target.anchor ? `#${target.anchor}` : "")
+      pieces.push(
+        { type: "text", value: text.slice(last, match.index) },
+        {
+          type: "element",
+          tagName: "a",
+          properties: { href, className: ["internal", "code-xref"], "data-slug": target.slug },
+          children: [{ type: "text", value: match[0] }],
+        },
+      )
+      last = match.index! + match[0].length
+    }
+
+    if (pieces.length === 0) return
+    pieces.push({ type: "text", value: text.slice(last) })
+    const replacement = pieces.filter((piece) => piece.type !== "text" || piece.value.length > 0)
+    parent.children.splice(index, 1, ...replacement)
+    return index + replacement.length
+  })
+}
+
+function textOf(node: Element): string {
+  return node.children.map((child) => (child.type === "text" ? child.value : "")).join("")
+}
+
+/**
+ * Custom transformer that links identifiers in highlighted code blocks to where they are defined
+ * Must run after CustomSyntaxHighlighting (it works on the highlighted tokens) and after CrawlLinks
+ * (so code references stay out of backlinks and the graph). The links are regular internal
+ * links, so they get popover previews like any other
+ */
+export const CodeCrossReferences: QuartzTransformerPlugin<Partial<Options>> = (userOpts) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+
+  return {
+    name: "CodeCrossReferences",
+    htmlPlugins(ctx) {
+      const symbols = buildSymbolTable(ctx.argv.directory, opts.folders, opts.symbols)
+
+      return [
+        () => (tree: Root, file) => {
+          if (symbols.size === 0) return
+          const currentSlug = file.data.slug!
+
+          visit(tree, "element", (node: Element) => {
+            if (node.tagName !== "pre" || !opts.langs.includes(codeLanguage(node) ?? "")) return
+
+            visit(node, "element", (line: Element) => {
+              if (line.properties?.dataLine === undefined && line.properties?.["data-line"] === undefined) {
+                return
+              }
+              linkIdentifiers(line, symbols, currentSlug)
+              return SKIP
+            })
+          })
+        },
+      ]
+    },
+  }
+}
@@ -8,17 +8,39 @@ import { i18n } from "./quartz/i18n"
 import { FileTrieNode } from "./quartz/util/fileTrie"
 import OverflowListFactory from "./quartz/components/OverflowList"
 import { concatenateResources } from "./quartz/util/resources"
+import { FullSlug, resolveRelative, simplifySlug } from "./quartz/util/path"
+import { QuartzPluginData } from "./quartz/plugins/vfile"
+import { buildFrontmatterIndex, frontmatterIndexHash } from "./frontmatter-index"
+import {
+  buildHeaderTree,
+  ExplorerData,
+  explorerData,
+  explorerSort,
+  explorerToc,
+  HeaderNode,
+} from "./explorer-tree"
 
 type OrderEntries = "sort" | "filter" | "map"
 
+type ExplorerNode = FileTrieNode<ExplorerData>
+
 export interface Options {
   title?: string
   folderDefaultState: "collapsed" | "open"
   folderClickBehavior: "collapse" | "link"
   useSavedState: boolean
-  sortFn: (a: FileTrieNode, b: FileTrieNode) => number
-  filterFn: (node: FileTrieNode) => boolean
-  mapFn: (node: FileTrieNode) => void
+  /**
+   * Folders with more children than this are windowed: only the rows near the visible part of
+   * the explorer are in the DOM, and the client swaps them as the list scrolls.
+   */
+  batchSize: number
+  /**
+   * Heading levels shown under each page, unless the page sets `explorer_toc_depth`
+   */
+  tocDepth: number
+  sortFn: (a: ExplorerNode, b: ExplorerNode) => number
+  filterFn: (node: ExplorerNode) => boolean
+  mapFn: (node: ExplorerNode) => void
   order: OrderEntries[]
 }
 
@@ -26,51 +48,13 @@ const defaultOptions: Options = {
   folderDefaultState: "collapsed",
   folderClickBehavior: "link",
   useSavedState: true,
+  batchSize: 100,
+  tocDepth: 6,
   mapFn: (node) => {
     return node
   },
-  sortFn: (a, b) => {
-    // Custom sort function that respects sortorder frontmatter
-    const getSortOrder = (node: FileTrieNode) => {
-      // For folders, we don't have sortorder, so use default folder sorting
-      if (node.isFolder) return null
-      
-      // Check if we have access to frontmatter data with sortorder
-      // This will be enhanced in the inline script to access actual frontmatter
-      return (node.data as any)?.sortorder ?? null
-    }
-
-    const aSortOrder = getSortOrder(a)
-    const bSortOrder = getSortOrder(b)
-
-    // Handle folder vs file sorting first
-    if ((!a.isFolder && !b.isFolder) || (a.isFolder && b.isFolder)) {
-      // Both are files or both are folders
-      if (aSortOrder !== null && bSortOrder !== null) {
-        // Both have sortorder
-        return aSortOrder - bSortOrder
-      } else if (aSortOrder !== null && bSortOrder === null) {
-        // Only a has sortorder, a comes first
-        return -1
-      } else if (aSortOrder === null && bSortOrder !== null) {
-        // Only b has sortorder, b comes first
-        return 1
-      } else {
-        // Neither has sortorder, sort alphabetically
-        return a.displayName.localeCompare(b.displayName, undefined, {
-          numeric: true,
-          sensitivity: "base",
-        })
-      }
-    }
-
-    // Handle mixed folder/file sorting
-    if (!a.isFolder && b.isFolder) {
-      return 1
-    } else {
-      return -1
-    }
-  },
+  // Respects `sortorder` frontmatter, including a folder's from its index.md
+  sortFn: explorerSort,
   filterFn: (node) => node.slugSegment !== "tags",
   order: ["filter", "map", "sort"],
 }
@@ -80,13 +64,269 @@ export type FolderState = {
   collapsed: boolean
 }
 
+
+interface RenderContext {
+  currentSlug: FullSlug
+  opts: Options
+}
+
+function buildExplorerTree(allFiles: QuartzPluginData[], opts: Options): ExplorerNode {
+  const entries = allFiles.map((file): [FullSlug, ExplorerData] => [
+    file.slug!,
+    explorerData(
+      file.slug!,
+      file.filePath!,
+      file.frontmatter ?? {},
+      explorerToc(file.toc ?? [], file.frontmatter ?? {}, file.explorerTocExclude, opts.tocDepth),
+    ),
+  ])
+  const trie = FileTrieNode.fromEntries(entries)
+
+  // Apply functions in order
+  for (const fn of opts.order) {
+    switch (fn) {
+      case "filter":
+        trie.filter(opts.filterFn)
+        break
+      case "map":
+        trie.map(opts.mapFn)
+        break
+      case "sort":
+        trie.sort(opts.sortFn)
+        break
+    }
+  }
+
+  return trie
+}
+
+function FolderIcon() {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width="12"
+      height="12"
+      viewBox="5 8 14 8"
+      fill="none"
+      stroke="currentColor"
+      stroke-width="2"
+      stroke-linecap="round"
+      stroke-linejoin="round"
+      class="folder-icon"
+      aria-hidden="true"
+    >
+      <polyline points="6 9 12 15 18 9"></polyline>
+    </svg>
+  )
+}
+
+// Rows follow the WAI-ARIA tree pattern: the <li> is the focusable treeitem (with a roving
+// tabindex managed by the client) and the links inside are taken out of the tab order.
+function ariaExpanded(open: boolean) {
+  return open ? "true" : "false"
+}
+
+// Header tree structure with folders for parents and links for leaves
+// `path` (page slug + header slug) keys the saved expansion state of header folders
+function HeaderItem({ href, path, header }: { href: string; path: string; header: HeaderNode }) {
+  const hasChildren = header.children.length > 0
+  const link = (
+    <a
+      tabIndex={-1}
+      href={`${href}#${header.slug}`}
+      class={`header-link header-depth-${header.depth}${hasChildren ? " header-folder" : ""}`}
+    >
+      {header.text}
+    </a>
+  )
+
+  if (!hasChildren) {
+    return (
+      <li role="treeitem" tabIndex={-1}>
+        {link}
+      </li>
+    )
+  }
+
+  // Headers start collapsed by default
+  return (
+    <li role="treeitem" tabIndex={-1} aria-expanded="false">
+      <div class="folder-container" data-headerpath={`${path}#${header.slug}`}>
+        <FolderIcon />
+        <div>{link}</div>
+      </div>
+      <div class="folder-outer">
+        <ul class="content" role="group">
+          {header.children.map((child) => (
+            <HeaderItem href={href} path={path} header={child} />
+          ))}
+        </ul>
+      </div>
+    </li>
+  )
+}
+
+function isPrefixOfCurrentSlug(folderPath: FullSlug, currentSlug: FullSlug): boolean {
+  const simpleFolderPath = simplifySlug(folderPath)
+  return currentSlug === simpleFolderPath || currentSlug.startsWith(simpleFolderPath + "/")
+}
+
+// Children of an open folder. Long folders are windowed: the list is marked with `data-window` and
+// only holds the `batchSize` rows around the current page between two spacers, from child
+// `data-start` up to `data-end`. The client sizes the spacers and swaps rows in and out as it scrolls.
+function ChildList({ node, ctx }: { node: ExplorerNode; ctx: RenderContext }) {
+  const { batchSize } = ctx.opts
+  if (node.children.length <= batchSize) {
+    return (
+      <ul class="content" role="group">
+        {node.children.map((child) => (
+          <ExplorerItem node={child} ctx={ctx} />
+        ))}
+      </ul>
+    )
+  }
+
+  // Always include the row leading to the current page so it can be scrolled to
+  const activeIndex = node.children.findIndex((child) =>
+    child.isFolder ? isPrefixOfCurrentSlug(child.slug, ctx.currentSlug) : child.slug === ctx.currentSlug,
+  )
+  const start = Math.max(0, Math.min(activeIndex - Math.floor(batchSize / 2), node.children.length - batchSize))
+  const end = start + batchSize
+
+  return (
+    <ul class="content" role="group" data-window={node.slug} data-start={start} data-end={end}>
+      <li class="explorer-spacer" role="none" />
+      {node.children.slice(start, end).map((child) => (
+        <ExplorerItem node={child} ctx={ctx} />
+      ))}
+      <li class="explorer-spacer" role="none" />
+    </ul>
+  )
+}
+
+function FileItem({ node, ctx }: { node: ExplorerNode; ctx: RenderContext }) {
+  const isActive = ctx.currentSlug === node.slug
+  const href = resolveRelative(ctx.currentSlug, node.slug)
+  const link = (
+    <a
+      tabIndex={-1}
+      href={href}
+      data-for={node.slug}
+      class={isActive ? "file-title physical-file active" : "file-title physical-file"}
+    >
+      {node.displayName}
+    </a>
+  )
+
+  const toc = node.data?.toc ?? []
+  if (toc.length === 0) {
+    return (
+      <li role="treeitem" tabIndex={-1}>
+        {link}
+      </li>
+    )
+  }
+
+  // A file with a TOC is shown like a folder, expanded when it is the current page.
+  // Other pages' headers are built on the client the first time they are expanded.
+  return (
+    <li role="treeitem" tabIndex={-1} aria-expanded={ariaExpanded(isActive)}>
+      <div class="folder-container" data-headerpath={node.slug}>
+        <FolderIcon />
+        <div>{link}</div>
+      </div>
+      <div class={isActive ? "folder-outer open" : "folder-outer"}>
+        {isActive ? (
+          <ul class="content" role="group">
+            {buildHeaderTree(toc).map((header) => (
+              <HeaderItem href={href} path={node.slug} header={header} />
+            ))}
+          </ul>
+        ) : (
+          <ul class="content" role="group" data-lazy={node.slug} data-rendered={0} />
+        )}
+      </div>
+    </li>
+  )
+}
+
+function FolderItem({ node, ctx }: { node: ExplorerNode; ctx: RenderContext }) {
+  const folderPath = node.slug
+  // `collapsed` in the folder's index.md overrides the default state; saved folder state is applied
+  // on the client, which also builds collapsed folders on first expand
+  const collapsed = node.data?.collapsed ?? null
+  const isOpen =
+    !(collapsed ?? ctx.opts.folderDefaultState === "collapsed") ||
+    isPrefixOfCurrentSlug(folderPath, ctx.currentSlug)
+  const icon = node.data?.icon && (
+    <span class="explorer-icon" aria-hidden="true">
+      {node.data.icon}
+    </span>
+  )
+
+  return (
+    <li role="treeitem" tabIndex={-1} aria-expanded={ariaExpanded(isOpen)}>
+      <div
+        class="folder-container"
+        data-folderpath={folderPath}
+        data-collapsed={collapsed === null ? undefined : String(collapsed)}
+      >
+        <FolderIcon />
+        <div>
+          {ctx.opts.folderClickBehavior === "link" ? (
+            <a
+              tabIndex={-1}
+              href={resolveRelative(ctx.currentSlug, folderPath)}
+              data-for={folderPath}
+              class="folder-title physical-folder"
+            >
+              {icon}
+              {node.displayName}
+            </a>
+          ) : (
+            <button class="folder-button" tabIndex={-1}>
+              <span class="folder-title physical-folder">
+                {icon}
+                {node.displayName}
+              </span>
+            </button>
+          )}
+        </div>
+      </div>
+      <div class={isOpen ? "folder-outer open" : "folder-outer"}>
+        {isOpen ? (
+          <ChildList node={node} ctx={ctx} />
+        ) : (
+          <ul class="content" role="group" data-lazy={folderPath} data-rendered={0} />
+        )}
+      </div>
+    </li>
+  )
+}
+
+function ExplorerItem({ node, ctx }: { node: ExplorerNode; ctx: RenderContext }) {
+  return node.isFolder ? <FolderItem node={node} ctx={ctx} /> : <FileItem node={node} ctx={ctx} />
+}
+
 let numExplorers = 0
 export const CustomExplorer = ((userOpts?: Partial<Options>) => {
   const opts: Options = { ...defaultOptions, ...userOpts }
   const { OverflowList, overflowListAfterDOMLoaded } = OverflowListFactory()
+  // The trie and index hash only depend on the set of pages, which is shared by every page of a build
+  const treeCache = new WeakMap<QuartzPluginData[], { trie: ExplorerNode; indexHash: string }>()
 
-  const Explorer: QuartzComponent = ({ cfg, displayClass }: QuartzComponentProps) => {
+  const Explorer: QuartzComponent = ({ cfg, displayClass, fileData, allFiles }: QuartzComponentProps) => {
     const id = `explorer-${numExplorers++}`
+    let tree = treeCache.get(allFiles)
+    if (!tree) {
+      tree = {
+        trie: buildExplorerTree(allFiles, opts),
+        indexHash: frontmatterIndexHash(buildFrontmatterIndex(allFiles)),
+      }
+      treeCache.set(allFiles, tree)
+    }
+    const ctx: RenderContext = { currentSlug: fileData.slug!, opts }
+    const explorerTitle = opts.title ?? i18n(cfg.locale).components.explorer.title
 
     return (
       <div
@@ -94,9 +334,13 @@ export const CustomExplorer = ((userOpts?: Partial<Options>) => {
         data-behavior={opts.folderClickBehavior}
         data-collapsed={opts.folderDefaultState}
         data-savestate={opts.useSavedState}
+        data-batch-size={opts.batchSize}
+        data-toc-depth={opts.tocDepth}
+        data-index-hash={tree.indexHash}
         data-data-fns={JSON.stringify({
           order: opts.order,
-          sortFn: opts.sortFn.toString(),
+          // The client imports the default sort itself, since it calls other shared functions
+          sortFn: opts.sortFn === explorerSort ? undefined : opts.sortFn.toString(),
           filterFn: opts.filterFn.toString(),
           mapFn: opts.mapFn.toString(),
         })}
@@ -128,7 +372,7 @@ export const CustomExplorer = ((userOpts?: Partial<Options>) => {
           data-mobile={false}
           aria-expanded={true}
         >
-          <h2>{opts.title ?? i18n(cfg.locale).components.explorer.title}</h2>
+          <h2>{explorerTitle}</h2>
           <svg
             xmlns="http://www.w3.org/2000/svg"
             width="14"
@@ -145,38 +389,43 @@ export const CustomExplorer = ((userOpts?: Partial<Options>) => {
           </svg>
         </button>
         <div id={id} class="explorer-content" aria-expanded={false} role="group">
-          <OverflowList class="explorer-ul" />
+          <input
+            type="search"
+            class="explorer-filter"
+            placeholder="Filter pages and headings"
+            aria-label="Filter pages and headings"
+          />
+          <div class="explorer-actions">
+            <button type="button" class="explorer-expand-all">
+              Expand all
+            </button>
+            <button type="button" class="explorer-collapse-all">
+              Collapse all
+            </button>
+          </div>
+          <OverflowList class="explorer-ul" role="tree" aria-label={explorerTitle}>
+            {tree.trie.children.map((child) => (
+              <ExplorerItem node={child} ctx={ctx} />
+            ))}
+          </OverflowList>
         </div>
         <template id="template-file">
-          <li>
-            <a href="#"></a>
+          <li role="treeitem" tabIndex={-1}>
+            <a href="#" tabIndex={-1}></a>
           </li>
         </template>
         <template id="template-folder">
-          <li>
+          <li role="treeitem" tabIndex={-1} aria-expanded="false">
             <div class="folder-container">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="12"
-                height="12"
-                viewBox="5 8 14 8"
-                fill="none"
-                stroke="currentColor"
-                stroke-width="2"
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                class="folder-icon"
-              >
-                <polyline points="6 9 12 15 18 9"></polyline>
-              </svg>
+              <FolderIcon />
               <div>
-                <button class="folder-button">
+                <button class="folder-button" tabIndex={-1}>
                   <span class="folder-title"></span>
                 </button>
               </div>
             </div>
             <div class="folder-outer">
-              <ul class="content"></ul>
+              <ul class="content" role="group"></ul>
             </div>
           </li>
         </template>
@@ -13,7 +13,6 @@ import {
   joinSegments,
   pathToRoot,
   simplifySlug,
-  isFolderPath,
 } from "./quartz/util/path"
 import { defaultListPageLayout, sharedPageComponents } from "./quartz.layout"
 import { write } from "./quartz/plugins/emitters/helpers"
@@ -24,55 +23,22 @@ import { QuartzComponent, QuartzComponentConstructor } from "./quartz/components
 import { Date, getDate } from "./quartz/components/Date"
 import { FullSlug as PathFullSlug, resolveRelative } from "./quartz/util/path"
 import style from "./quartz/components/styles/listPage.scss"
+import viewStyle from "./styles/folder-views.scss"
+// @ts-ignore
+import script from "./scripts/folder-views.inline"
 import { htmlToJsx } from "./quartz/util/jsx"
 import { ComponentChildren } from "preact"
 import { concatenateResources } from "./quartz/util/resources"
-import { trieFromAllFiles } from "./quartz/util/ctx"
-import { GlobalConfiguration } from "./quartz/cfg"
-
-// Custom sort function that respects sortorder frontmatter
-export function bySortOrderAndAlphabetical(cfg: GlobalConfiguration) {
-  return (f1: QuartzPluginData, f2: QuartzPluginData) => {
-    // Get sortorder from frontmatter
-    const f1SortOrder = f1.frontmatter?.sortorder
-    const f2SortOrder = f2.frontmatter?.sortorder
-
-    // Handle folder vs file sorting first
-    const f1IsFolder = isFolderPath(f1.slug ?? "")
-    const f2IsFolder = isFolderPath(f2.slug ?? "")
-    
-    if (f1IsFolder && !f2IsFolder) return -1
-    if (!f1IsFolder && f2IsFolder) return 1
-
-    // Both are folders or both are files
-    if (typeof f1SortOrder === 'number' && typeof f2SortOrder === 'number') {
-      // Both have sortorder
-      return f1SortOrder - f2SortOrder
-    } else if (typeof f1SortOrder === 'number' && typeof f2SortOrder !== 'number') {
-      // Only f1 has sortorder, f1 comes first
-      return -1
-    } else if (typeof f1SortOrder !== 'number' && typeof f2SortOrder === 'number') {
-      // Only f2 has sortorder, f2 comes first
-      return 1
-    } else {
-      // Neither has sortorder, fall back to default sorting
-      if (f1.dates && f2.dates) {
-        // sort descending by date
-        return getDate(cfg, f2)!.getTime() - getDate(cfg, f1)!.getTime()
-      } else if (f1.dates && !f2.dates) {
-        // prioritize files with dates
-        return -1
-      } else if (!f1.dates && f2.dates) {
-        return 1
-      }
+import { BuildTimeTrieData, trieFromAllFiles } from "./quartz/util/ctx"
+import { FileTrieNode } from "./quartz/util/fileTrie"
+import { bySortOrderAndAlphabetical } from "./page-order"
 
-      // otherwise, sort lexographically by title
-      const f1Title = f1.frontmatter?.title?.toLowerCase() ?? ""
-      const f2Title = f2.frontmatter?.title?.toLowerCase() ?? ""
-      return f1Title.localeCompare(f2Title)
-    }
-  }
-}
+// Moved to page-order.ts so other components can share it without importing the layout
+export { bySortOrderAndAlphabetical } from "./page-order"
+
+type FolderView = "list" | "cards" | "table" | "grouped"
+
+const VIEWS: FolderView[] = ["list", "cards", "table", "grouped"]
 
 interface CustomFolderContentOptions {
   /**
@@ -80,20 +46,132 @@ interface CustomFolderContentOptions {
    */
   showFolderCount: boolean
   showSubfolders: boolean
+  /**
+   * Folder levels listed, unless the folder's index.md sets `depth`; pages of nested subfolders are
+   * shown under their folder as an indented outline
+   */
+  depth: number
+  /**
+   * How pages are listed unless the folder's index.md sets `view`
+   */
+  view: FolderView
   sort?: (f1: QuartzPluginData, f2: QuartzPluginData) => number
 }
 
 const defaultOptions: CustomFolderContentOptions = {
   showFolderCount: true,
   showSubfolders: true,
+  depth: 1,
+  view: "list",
+}
+
+type FolderNode = FileTrieNode<BuildTimeTrieData>
+
+// Most recent dates of any page below `folder`, or undefined when none of them has dates
+function aggregateDates(folder: FolderNode): QuartzPluginData["dates"] {
+  let dates: QuartzPluginData["dates"] = folder.data?.dates && { ...folder.data.dates }
+  for (const child of folder.children) {
+    const childDates = child.isFolder ? aggregateDates(child) : child.data?.dates
+    if (!childDates) continue
+    if (!dates) {
+      dates = { ...childDates }
+      continue
+    }
+    if (childDates.created > dates.created) dates.created = childDates.created
+    if (childDates.modified > dates.modified) dates.modified = childDates.modified
+    if (childDates.published > dates.published) dates.published = childDates.published
+  }
+  return dates
+}
+
+/**
+ * Pages listed for `folder`, descending `depth` levels. Subfolders' own listings are collected in
+ * `subpages`, keyed by the slug of the folder's entry.
+ */
+function collectPages(
+  folder: FolderNode,
+  depth: number,
+  showSubfolders: boolean,
+  subpages: Map<string, QuartzPluginData[]>,
+): QuartzPluginData[] {
+  return folder.children.flatMap((node): QuartzPluginData[] => {
+    // Folders without an index.md get an entry made from their pages
+    const page: QuartzPluginData | undefined =
+      node.data ??
+      (node.isFolder && showSubfolders
+        ? {
+            slug: node.slug,
+            dates: aggregateDates(node),
+            frontmatter: {
+              title: node.displayName,
+              tags: [],
+            },
+          }
+        : undefined)
+    if (!page) return []
+
+    if (node.isFolder && depth > 1) {
+      subpages.set(page.slug!, collectPages(node, depth - 1, showSubfolders, subpages))
+    }
+    return [page]
+  })
+}
+
+interface Column {
+  field: string
+  label: string
+}
+
+// `columns` frontmatter of the table view: field names, or `field: Label` to name the header
+function parseColumns(value: unknown): Column[] {
+  const items = Array.isArray(value) ? value : ["description"]
+  return items.flatMap((item): Column[] => {
+    if (typeof item === "string") {
+      return [{ field: item, label: item.charAt(0).toUpperCase() + item.slice(1).replace(/_/g, " ") }]
+    }
+    if (item && typeof item === "object") {
+      return Object.entries(item).map(([field, label]) => ({ field, label: String(label) }))
+    }
+    return []
+  })
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return ""
+  if (Array.isArray(value)) return value.map(formatValue).join(", ")
+  // `Date` is the Quartz component in this module
+  if (value instanceof globalThis.Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
+
+// Values a page is grouped under: each of its tags, or the value of another frontmatter field
+function groupValues(page: QuartzPluginData, field: string): string[] {
+  const value = page.frontmatter?.[field]
+  const values = (Array.isArray(value) ? value : [value]).map(formatValue).filter((v) => v.length > 0)
+  return values.length > 0 ? values : ["Other"]
+}
+
+function TagLinks({ slug, tags }: { slug: FullSlug; tags: string[] }) {
+  if (tags.length === 0) return null
+  return (
+    <ul class="tags">
+      {tags.map((tag) => (
+        <li>
+          <a class="internal tag-link" href={resolveRelative(slug, `tags/${tag}` as FullSlug)}>
+            #{tag}
+          </a>
+        </li>
+      ))}
+    </ul>
+  )
 }
 
 export const CustomFolderContent = ((opts?: Partial<CustomFolderContentOptions>) => {
   const options: CustomFolderContentOptions = { ...defaultOptions, ...opts }
 
   const CustomPageList: QuartzComponent = (props: QuartzComponentProps) => {
-    const { cfg, fileData, allFiles } = props
-    
+    const { cfg, fileData, allFiles, subpages } = props
+
     // Apply custom sorting if provided, otherwise use sortorder sorting
     const sortFn = options.sort ?? bySortOrderAndAlphabetical(cfg)
     const sorted = allFiles.sort(sortFn)
@@ -103,6 +181,7 @@ export const CustomFolderContent = ((opts?: Partial<CustomFolderContentOptions>)
         {sorted.map((page) => {
           const title = page.frontmatter?.title ?? i18n(cfg.locale).propertyDefaults.title
           const tags = page.frontmatter?.tags ?? []
+          const nested: QuartzPluginData[] | undefined = subpages?.get(page.slug!)
 
           return (
             <li class="section-li">
@@ -121,22 +200,10 @@ export const CustomFolderContent = ((opts?: Partial<CustomFolderContentOptions>)
                   {page.frontmatter?.description && (
                     <p>{page.frontmatter.description}</p>
                   )}
-                  {tags.length > 0 && (
-                    <ul class="tags">
-                      {tags.map((tag) => (
-                        <li>
-                          <a
-                            class="internal tag-link"
-                            href={resolveRelative(fileData.slug!, `tags/${tag}` as FullSlug)}
-                          >
-                            #{tag}
-                          </a>
-                        </li>
-                      ))}
-                    </ul>
-                  )}
+                  <TagLinks slug={fileData.slug!} tags={tags} />
                 </div>
               </div>
+              {nested && nested.length > 0 && <CustomPageList {...props} allFiles={nested} />}
             </li>
           )
         })}
@@ -144,6 +211,117 @@ export const CustomFolderContent = ((opts?: Partial<CustomFolderContentOptions>)
     )
   }
 
+  // `view: cards`: one card per page with its title, description and tags
+  const PageCards: QuartzComponent = ({ cfg, fileData, allFiles }: QuartzComponentProps) => {
+    const sorted = [...allFiles].sort(options.sort ?? bySortOrderAndAlphabetical(cfg))
+    return (
+      <ul class="folder-cards">
+        {sorted.map((page) => (
+          <li class="folder-card">
+            <h3>
+              <a href={resolveRelative(fileData.slug!, page.slug!)} class="internal">
+                {page.frontmatter?.title ?? i18n(cfg.locale).propertyDefaults.title}
+              </a>
+            </h3>
+            {page.frontmatter?.description && <p>{page.frontmatter.description}</p>}
+            <TagLinks slug={fileData.slug!} tags={page.frontmatter?.tags ?? []} />
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  // `view: table`: the title plus the frontmatter fields listed in `columns`, sortable by header
+  const PageTable: QuartzComponent = ({ cfg, fileData, allFiles }: QuartzComponentProps) => {
+    const sorted = [...allFiles].sort(options.sort ?? bySortOrderAndAlphabetical(cfg))
+    // The title column is always first; a `title` entry in `columns` only renames its header.
+    // It sorts on the frontmatter title, so untitled pages go last rather than sorting as "Untitled".
+    const allColumns = parseColumns(fileData.frontmatter?.columns)
+    const titleLabel = allColumns.find((column) => column.field === "title")?.label ?? "Title"
+    const columns = allColumns.filter((column) => column.field !== "title")
+    const header = (label: string) => (
+      <th>
+        <button type="button" class="folder-table-sort">
+          {label}
+        </button>
+      </th>
+    )
+
+    return (
+      <table class="folder-table">
+        <thead>
+          <tr>
+            {header(titleLabel)}
+            {columns.map((column) => header(column.label))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((page) => (
+            <tr>
+              <td data-sort-value={page.frontmatter?.title ?? ""}>
+                <a href={resolveRelative(fileData.slug!, page.slug!)} class="internal">
+                  {page.frontmatter?.title ?? i18n(cfg.locale).propertyDefaults.title}
+                </a>
+              </td>
+              {columns.map(({ field }) => {
+                if (field === "tags") {
+                  const tags = page.frontmatter?.tags ?? []
+                  return (
+                    <td data-sort-value={tags.join(" ")}>
+                      <TagLinks slug={fileData.slug!} tags={tags} />
+                    </td>
+                  )
+                }
+                if (field === "date") {
+                  const date = page.dates ? getDate(cfg, page) : undefined
+                  return (
+                    <td data-sort-value={date?.getTime() ?? ""}>
+                      {date && <Date date={date} locale={cfg.locale} />}
+                    </td>
+                  )
+                }
+                return <td>{formatValue(page.frontmatter?.[field])}</td>
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )
+  }
+
+  // `view: grouped`: one list per tag, or per value of the field named by `group_by`
+  const PageGroups: QuartzComponent = (props: QuartzComponentProps) => {
+    const { fileData, allFiles } = props
+    const field = typeof fileData.frontmatter?.group_by === "string" ? fileData.frontmatter.group_by : "tags"
+    const groups = new Map<string, QuartzPluginData[]>()
+    for (const page of allFiles) {
+      for (const value of groupValues(page, field)) {
+        groups.set(value, [...(groups.get(value) ?? []), page])
+      }
+    }
+    const names = [...groups.keys()].sort((a, b) =>
+      a === "Other" ? 1 : b === "Other" ? -1 : a.localeCompare(b),
+    )
+
+    return (
+      <div class="folder-groups">
+        {names.map((name) => (
+          <section>
+            <h2 class="folder-group-title">{name}</h2>
+            <CustomPageList {...props} allFiles={groups.get(name)!} />
+          </section>
+        ))}
+      </div>
+    )
+  }
+
+  const views: Record<FolderView, QuartzComponent> = {
+    list: CustomPageList,
+    cards: PageCards,
+    table: PageTable,
+    grouped: PageGroups,
+  }
+
   const FolderContent: QuartzComponent = (props: QuartzComponentProps) => {
     const { tree, fileData, allFiles, cfg } = props
 
@@ -153,64 +331,24 @@ export const CustomFolderContent = ((opts?: Partial<CustomFolderContentOptions>)
       return null
     }
 
-    const allPagesInFolder: QuartzPluginData[] =
-      folder.children
-        .map((node) => {
-          // regular file, proceed
-          if (node.data) {
-            return node.data
-          }
-
-          if (node.isFolder && options.showSubfolders) {
-            // folders that dont have data need synthetic files
-            const getMostRecentDates = (): QuartzPluginData["dates"] => {
-              let maybeDates: QuartzPluginData["dates"] | undefined = undefined
-              for (const child of node.children) {
-                if (child.data?.dates) {
-                  // compare all dates and assign to maybeDates if its more recent or its not set
-                  if (!maybeDates) {
-                    maybeDates = { ...child.data.dates }
-                  } else {
-                    if (child.data.dates.created > maybeDates.created) {
-                      maybeDates.created = child.data.dates.created
-                    }
-
-                    if (child.data.dates.modified > maybeDates.modified) {
-                      maybeDates.modified = child.data.dates.modified
-                    }
-
-                    if (child.data.dates.published > maybeDates.published) {
-                      maybeDates.published = child.data.dates.published
-                    }
-                  }
-                }
-              }
-              return (
-                maybeDates ?? {
-                  created: new Date(),
-                  modified: new Date(),
-                  published: new Date(),
-                }
-              )
-            }
-
-            return {
-              slug: node.slug,
-              dates: getMostRecentDates(),
-              frontmatter: {
-                title: node.displayName,
-                tags: [],
-              },
-            }
-          }
-        })
-        .filter((page) => page !== undefined) ?? []
+    const frontmatterDepth = fileData.frontmatter?.depth
+    const depth =
+      typeof frontmatterDepth === "number" && frontmatterDepth >= 1 ? frontmatterDepth : options.depth
+    const subpages = new Map<string, QuartzPluginData[]>()
+    const allPagesInFolder = collectPages(folder, depth, options.showSubfolders, subpages)
+    // The list view nests subfolders' pages under their folder, the other views list them all
+    const listedPages = [...allPagesInFolder, ...[...subpages.values()].flat()]
     const cssClasses: string[] = fileData.frontmatter?.cssclasses ?? []
     const classes = cssClasses.join(" ")
-    const listProps = {
-      ...props,
-      allFiles: allPagesInFolder,
+    const view = fileData.frontmatter?.view ?? options.view
+    if (!VIEWS.includes(view as FolderView)) {
+      console.warn(`Unknown folder view "${view}" in ${fileData.filePath}, using "${options.view}"`)
     }
+    const PageView = views[VIEWS.includes(view as FolderView) ? (view as FolderView) : options.view]
+    const listProps =
+      PageView === CustomPageList
+        ? { ...props, allFiles: allPagesInFolder, subpages }
+        : { ...props, allFiles: listedPages }
 
     const content = (
       (tree as any).children.length === 0
@@ -225,19 +363,20 @@ export const CustomFolderContent = ((opts?: Partial<CustomFolderContentOptions>)
           {options.showFolderCount && (
             <p>
               {i18n(cfg.locale).pages.folderContent.itemsUnderFolder({
-                count: allPagesInFolder.length,
+                count: listedPages.length,
               })}
             </p>
           )}
           <div>
-            <CustomPageList {...listProps} />
+            <PageView {...listProps} />
           </div>
         </div>
       </div>
     )
   }
 
-  FolderContent.css = style
+  FolderContent.css = concatenateResources(style, viewStyle)
+  FolderContent.afterDOMLoaded = script
   return FolderContent
 }) satisfies QuartzComponentConstructor
 
@@ -370,7 +509,8 @@ export const CustomFolderPage: QuartzEmitterPlugin<Partial<FolderPageOptions>> =
       const allFiles = content.map((c) => c[1].data)
       const cfg = ctx.cfg.configuration
 
-      // Find all folders that need to be updated based on changed files
+      // Find all folders that need to be updated based on changed files. Every ancestor folder is
+      // included, which also covers nested listings and aggregated dates of subfolders.
       const affectedFolders: Set<SimpleSlug> = new Set()
       for (const changeEvent of changeEvents) {
         if (!changeEvent.file) continue
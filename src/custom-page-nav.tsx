@@ -0,0 +1,114 @@
+import { QuartzComponent, QuartzComponentConstructor, QuartzComponentProps } from "./quartz/components/types"
+import { QuartzPluginData } from "./quartz/plugins/vfile"
+import { GlobalConfiguration } from "./quartz/cfg"
+import { FilePath, FullSlug, resolveRelative, slugifyFilePath } from "./quartz/util/path"
+import { BuildTimeTrieData, trieFromAllFiles } from "./quartz/util/ctx"
+import { FileTrieNode } from "./quartz/util/fileTrie"
+import { classNames } from "./quartz/util/lang"
+import { bySortOrderAndAlphabetical } from "./page-order"
+import style from "./styles/page-nav.scss"
+
+interface Options {
+  /**
+   * Continue into the neighbouring folder at the first and last page of a folder
+   */
+  crossFolders: boolean
+}
+
+const defaultOptions: Options = {
+  crossFolders: false,
+}
+
+// Every page in reading order: each folder's pages sorted like its folder page, with subfolders'
+// pages where the subfolder sorts. Folder index pages are not part of the sequence.
+function readingOrder(folder: FileTrieNode<BuildTimeTrieData>, cfg: GlobalConfiguration): QuartzPluginData[] {
+  const sort = bySortOrderAndAlphabetical(cfg)
+  return folder.children
+    .filter((child) => child.slugSegment !== "tags")
+    .map((child) => ({
+      child,
+      // Folders without an index.md sort by name, as on folder pages
+      data: (child.data ?? {
+        slug: child.slug,
+        frontmatter: { title: child.displayName, tags: [] },
+      }) as QuartzPluginData,
+    }))
+    .sort((a, b) => sort(a.data, b.data))
+    .flatMap(({ child, data }) => (child.isFolder ? readingOrder(child, cfg) : [data]))
+}
+
+function folderOf(slug: string): string {
+  return slug.includes("/") ? slug.slice(0, slug.lastIndexOf("/")) : ""
+}
+
+// `prev`/`next` frontmatter: a page path or wikilink such as "reference/type-system" or
+// "[[type-system]]", or false to hide the link
+function resolveOverride(
+  value: unknown,
+  allFiles: QuartzPluginData[],
+  page: FullSlug,
+): QuartzPluginData | null | undefined {
+  if (value === false) return null
+  if (typeof value !== "string") return undefined
+
+  const target = value.replace(/^\[\[|\]\]$/g, "").split("|")[0].replace(/\.md$/, "")
+  const slug = slugifyFilePath(`${target}.md` as FilePath)
+  const match = allFiles.find((file) => file.slug === slug || file.slug?.endsWith(`/${slug}`))
+  if (!match) {
+    console.warn(`Page navigation: "${value}" in ${page} does not match a page`)
+  }
+  return match ?? null
+}
+
+/**
+ * Custom component with previous/next links, in the order pages appear in the explorer and
+ * on folder pages. Stays within the current folder unless `crossFolders` is set; `prev` and
+ * `next` frontmatter override either link.
+ */
+export const PageNavigation = ((userOpts?: Partial<Options>) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+  // The order only depends on the set of pages, which is shared by every page of a build
+  const orderCache = new WeakMap<QuartzPluginData[], QuartzPluginData[]>()
+
+  const Component: QuartzComponent = ({ ctx, cfg, fileData, allFiles, displayClass }: QuartzComponentProps) => {
+    const slug = fileData.slug!
+    let order = orderCache.get(allFiles)
+    if (!order) {
+      const trie = (ctx.trie ??= trieFromAllFiles(allFiles))
+      order = readingOrder(trie, cfg)
+      orderCache.set(allFiles, order)
+    }
+
+    const sequence = opts.crossFolders
+      ? order
+      : order.filter((page) => folderOf(page.slug!) === folderOf(slug))
+    const index = sequence.findIndex((page) => page.slug === slug)
+
+    const prevOverride = resolveOverride(fileData.frontmatter?.prev, allFiles, slug)
+    const nextOverride = resolveOverride(fileData.frontmatter?.next, allFiles, slug)
+    const prev = prevOverride !== undefined ? prevOverride : index > 0 ? sequence[index - 1] : null
+    const next =
+      nextOverride !== undefined ? nextOverride : index >= 0 ? (sequence[index + 1] ?? null) : null
+    if (!prev && !next) return null
+
+    return (
+      <nav class={classNames(displayClass, "page-nav")} aria-label="Previous and next page">
+        {prev && (
+          <a href={resolveRelative(slug, prev.slug!)} class="internal page-nav-prev" rel="prev">
+            <span class="page-nav-label">← Previous</span>
+            <span class="page-nav-title">{prev.frontmatter?.title}</span>
+          </a>
+        )}
+        {next && (
+          <a href={resolveRelative(slug, next.slug!)} class="internal page-nav-next" rel="next">
+            <span class="page-nav-label">Next →</span>
+            <span class="page-nav-title">{next.frontmatter?.title}</span>
+          </a>
+        )}
+      </nav>
+    )
+  }
+
+  Component.css = style
+  return Component
+}) satisfies QuartzComponentConstructor
@@ -7,6 +7,11 @@ import { QuartzComponent, QuartzComponentConstructor, QuartzComponentProps } fro
 // Import the stylesheets directly
 import extraStyles from "./styles/external-link-override.scss"
 import sidebarStyles from "./styles/sidebar-custom.scss"
+import railroadStyles from "./styles/railroad.scss"
+import codeAnnotationStyles from "./styles/code-annotations.scss"
+import codeGroupStyles from "./styles/code-groups.scss"
+import codeXrefStyles from "./styles/code-xref.scss"
+import diagnosticStyles from "./styles/diagnostics.scss"
 
 // Define an empty options interface to match Quartz's pattern
 interface Options {}
@@ -18,7 +23,15 @@ export const CustomStylesheets: QuartzComponentConstructor<Options> = (opts: Opt
   }
 
   // Apply CSS but no JS
-  Component.css = extraStyles + "\n" + sidebarStyles
+  Component.css = [
+    extraStyles,
+    sidebarStyles,
+    railroadStyles,
+    codeAnnotationStyles,
+    codeGroupStyles,
+    codeXrefStyles,
+    diagnosticStyles,
+  ].join("\n")
   Component.afterDOMLoaded = undefined
 
   return Component
@@ -1,5 +1,7 @@
 import { QuartzTransformerPlugin } from "./quartz/plugins/types"
 import rehypePrettyCode, { Options as CodeOptions, Theme as CodeTheme } from "rehype-pretty-code"
+import type { ShikiTransformer } from "shiki"
+import { Element } from "hast"
 
 interface Theme extends Record<string, CodeTheme> {
   light: CodeTheme
@@ -14,8 +16,167 @@ const defaultOptions: CodeOptions = {
   keepBackground: false,
 }
 
+type Severity = "error" | "warning" | "note"
+
+interface Diagnostic {
+  severity: Severity
+  target?: string
+  message: string
+}
+
+interface LineAnnotations {
+  focus: boolean
+  diagnostics: Diagnostic[]
+}
+
+// Block badges enabled by a bare word in the code fence meta, e.g. ```cesium does-not-compile
+const badges: Record<string, string> = {
+  "does-not-compile": "Does not compile",
+  "undefined-behavior": "Undefined behavior",
+}
+
+const severityRank: Record<Severity, number> = { note: 0, warning: 1, error: 2 }
+
+const ANNOTATION = /^\/\/\s*\[!(code focus|error|warning|note)(?::([^\]]+))?\]\s*(.*)$/
+
+// Index of the `//` that starts the line's trailing comment, skipping any inside string literals
+function commentStart(line: string): number {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      if (char === "\\") i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char
+    } else if (char === "/" && line[i + 1] === "/") {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Strip `// [!...]` annotations from a code block and record them per line.
+ * An annotation on a line of its own applies to the line above it, or to the line below
+ * when it comes before any code.
+ */
+function parseAnnotations(code: string) {
+  const lines: string[] = []
+  const annotations = new Map<number, LineAnnotations>()
+  // Annotations seen before the first line of code
+  let leading: RegExpMatchArray[] = []
+
+  const annotate = (lineNumber: number, match: RegExpMatchArray) => {
+    const entry = annotations.get(lineNumber) ?? { focus: false, diagnostics: [] }
+    if (match[1] === "code focus") {
+      entry.focus = true
+    } else {
+      entry.diagnostics.push({
+        severity: match[1] as Severity,
+        target: match[2]?.trim(),
+        message: match[3].trim(),
+      })
+    }
+    annotations.set(lineNumber, entry)
+  }
+
+  for (const raw of code.split("\n")) {
+    const start = commentStart(raw)
+    const match = start === -1 ? null : raw.slice(start).match(ANNOTATION)
+    const content = match ? raw.slice(0, start).trimEnd() : raw
+    if (!match || content.trim().length > 0) {
+      lines.push(content)
+      for (const pending of leading) annotate(lines.length, pending)
+      leading = []
+    }
+
+    if (!match) continue
+    if (lines.length === 0) {
+      leading.push(match)
+    } else {
+      annotate(lines.length, match)
+    }
+  }
+
+  return { lines, annotations }
+}
+
+function textOf(node: Element): string {
+  return node.children.map((child) => (child.type === "text" ? child.value : "")).join("")
+}
+
+/**
+ * Shiki transformer for Cesium-specific code annotations:
+ * - `// [!code focus]` dims every other line of the block
+ * - `// [!error] message` (or `warning`/`note`) squiggles the line and shows the message in the gutter
+ * - `// [!error:name] message` squiggles only `name` on that line
+ * - `does-not-compile` / `undefined-behavior` in the fence meta adds a badge to the block
+ * Annotations are removed from the source before highlighting, so copied code stays clean,
+ * and all decorations are data attributes styled by styles/code-annotations.scss.
+ */
+function cesiumAnnotations(): ShikiTransformer {
+  // Shiki runs preprocess and the hast hooks synchronously per block
+  let current: ReturnType<typeof parseAnnotations> = { lines: [], annotations: new Map() }
+
+  return {
+    name: "cesium-annotations",
+    preprocess(code) {
+      current = parseAnnotations(code)
+      return current.lines.join("\n")
+    },
+    span(hast, line, col) {
+      const diagnostics = current.annotations.get(line)?.diagnostics ?? []
+      const text = textOf(hast)
+      for (const diagnostic of diagnostics) {
+        if (!diagnostic.target) continue
+        const start = current.lines[line - 1].indexOf(diagnostic.target)
+        const end = start + diagnostic.target.length
+        if (start !== -1 && col < end && col + text.length > start) {
+          hast.properties["data-diagnostic-target"] = diagnostic.severity
+        }
+      }
+    },
+    line(hast, line) {
+      const entry = current.annotations.get(line)
+      if (!entry) return
+
+      if (entry.focus) {
+        hast.properties["data-focused"] = ""
+      }
+
+      if (entry.diagnostics.length > 0) {
+        const worst = entry.diagnostics.reduce((a, b) =>
+          severityRank[b.severity] > severityRank[a.severity] ? b : a,
+        )
+        hast.properties["data-diagnostic"] = worst.severity
+        hast.properties["data-message"] = entry.diagnostics
+          .map((diagnostic) => diagnostic.message)
+          .filter((message) => message.length > 0)
+          .join(" · ")
+        if (entry.diagnostics.some((diagnostic) => !diagnostic.target)) {
+          hast.properties["data-diagnostic-whole"] = ""
+        }
+      }
+    },
+    pre(hast) {
+      if ([...current.annotations.values()].some((entry) => entry.focus)) {
+        hast.properties["data-has-focused"] = ""
+      }
+
+      const meta = ((this.options.meta as { __raw?: string } | undefined)?.__raw ?? "").split(/\s+/)
+      const kinds = meta.filter((word) => word in badges)
+      if (kinds.length > 0) {
+        hast.properties["data-badge"] = kinds.map((kind) => badges[kind]).join(" · ")
+        hast.properties["data-badge-kind"] = kinds.join(" ")
+      }
+    },
+  }
+}
+
 export const CustomSyntaxHighlighting: QuartzTransformerPlugin<Partial<CodeOptions>> = (userOpts) => {
   const opts: CodeOptions = { ...defaultOptions, ...userOpts }
+  opts.transformers = [...(opts.transformers ?? []), cesiumAnnotations()]
 
   return {
     name: "CustomSyntaxHighlighting",
@@ -0,0 +1,200 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { Root as MdRoot, RootContent as MdContent } from "mdast"
+import yaml from "js-yaml"
+import * as fs from "fs"
+import * as path from "path"
+
+// @ts-ignore
+import script from "./scripts/diagnostics.inline"
+
+export type DiagnosticSeverity = "error" | "warning"
+
+/**
+ * A compiler diagnostic, as stored in data/diagnostics/<code>.yaml.
+ * Everything but the explanation is stored under the `diagnostic` frontmatter key of its page.
+ */
+export interface DiagnosticEntry {
+  code: string
+  title: string
+  severity: DiagnosticSeverity
+  explanation: string
+  failing?: string
+  fixed?: string
+}
+
+interface GenerateOptions {
+  /**
+   * Folder holding one registry file per diagnostic code
+   */
+  registryDir: string
+  /**
+   * Content folder the pages are written to, e.g. content/errors
+   */
+  outputDir: string
+  /**
+   * Short links `/<prefix>/<code>` are created as aliases of each page
+   */
+  shortLinkPrefix: string
+}
+
+const defaultGenerateOptions: Omit<GenerateOptions, "registryDir" | "outputDir"> = {
+  shortLinkPrefix: "e",
+}
+
+const CODE = /^[EW]\d{4}$/
+const SEVERITIES: DiagnosticSeverity[] = ["error", "warning"]
+
+/**
+ * Read every .yaml/.yml/.json file in `dir` as a DiagnosticEntry, sorted by code.
+ * Throws on malformed or duplicate codes so a bad registry fails the build.
+ */
+export function loadDiagnosticRegistry(dir: string): DiagnosticEntry[] {
+  if (!fs.existsSync(dir)) {
+    console.warn(`Diagnostic registry not found at ${dir}`)
+    return []
+  }
+
+  const seen = new Set<string>()
+  const entries = fs
+    .readdirSync(dir)
+    .filter((name) => /\.(ya?ml|json)$/.test(name))
+    .map((name) => {
+      const entry = yaml.load(fs.readFileSync(path.join(dir, name), "utf-8")) as DiagnosticEntry
+      for (const field of ["code", "title", "severity", "explanation"] as const) {
+        if (!entry?.[field]) {
+          throw new Error(`Diagnostic registry entry ${name} is missing "${field}"`)
+        }
+      }
+      if (!CODE.test(entry.code)) {
+        throw new Error(`Diagnostic registry entry ${name} has malformed code "${entry.code}"`)
+      }
+      if (!SEVERITIES.includes(entry.severity)) {
+        throw new Error(`Diagnostic ${entry.code} has unknown severity "${entry.severity}"`)
+      }
+      if (seen.has(entry.code)) {
+        throw new Error(`Diagnostic ${entry.code} is defined more than once`)
+      }
+      seen.add(entry.code)
+      return entry
+    })
+
+  return entries.sort((a, b) => a.code.localeCompare(b.code))
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|")
+}
+
+/**
+ * Write one page per diagnostic code plus a filterable index page.
+ * Like generateApiPages, the pages have to exist on disk for Quartz to build them, so the
+ * output folder is owned by this generator and is cleared on every run.
+ */
+export function generateDiagnosticPages(
+  userOpts: Partial<GenerateOptions> & Pick<GenerateOptions, "registryDir" | "outputDir">,
+): DiagnosticEntry[] {
+  const opts: GenerateOptions = { ...defaultGenerateOptions, ...userOpts }
+  const entries = loadDiagnosticRegistry(opts.registryDir)
+
+  fs.rmSync(opts.outputDir, { recursive: true, force: true })
+  fs.mkdirSync(opts.outputDir, { recursive: true })
+
+  for (const { explanation, ...entry } of entries) {
+    const frontmatter = [
+      "---",
+      `title: ${JSON.stringify(`${entry.code}: ${entry.title}`)}`,
+      `tags: ${JSON.stringify(["diagnostic", entry.severity])}`,
+      `aliases: ${JSON.stringify([`${opts.shortLinkPrefix}/${entry.code}`])}`,
+      `diagnostic: ${JSON.stringify(entry)}`,
+      "---",
+    ]
+    fs.writeFileSync(
+      path.join(opts.outputDir, `${entry.code}.md`),
+      frontmatter.join("\n") + "\n\n" + explanation.trim() + "\n",
+    )
+  }
+
+  const rows = entries.map(
+    (entry) => `| [[${entry.code}]] | ${entry.severity} | ${escapeTableCell(entry.title)} |`,
+  )
+  const index = [
+    "---",
+    `title: "Compiler Diagnostics"`,
+    `tags: ["diagnostic"]`,
+    "---",
+    "",
+    `Every error and warning the compiler reports has a code. Compiler output links to \`/${opts.shortLinkPrefix}/<code>\`, which redirects to the explanation below.`,
+    "",
+    `<input type="search" class="diagnostic-filter" placeholder="Filter by code or title" aria-label="Filter diagnostics">`,
+    "",
+    "| Code | Severity | Title |",
+    "| ---- | -------- | ----- |",
+    ...rows,
+    "",
+  ]
+  fs.writeFileSync(path.join(opts.outputDir, "index.md"), index.join("\n"))
+
+  return entries
+}
+
+function heading(value: string): MdContent {
+  return { type: "heading", depth: 2, children: [{ type: "text", value }] }
+}
+
+// Render the structured `diagnostic` frontmatter around the page's own explanation
+function renderDiagnostic(tree: MdRoot, entry: Omit<DiagnosticEntry, "explanation">) {
+  const before: MdContent[] = [
+    {
+      type: "html",
+      value: `<p class="diagnostic-severity" data-severity="${entry.severity}">${entry.severity}</p>`,
+    },
+  ]
+  const after: MdContent[] = []
+
+  if (entry.failing) {
+    // Failing error examples get the "does not compile" badge from CustomSyntaxHighlighting
+    after.push(heading("Example"), {
+      type: "code",
+      lang: "cesium",
+      meta: entry.severity === "error" ? "does-not-compile" : null,
+      value: entry.failing.trimEnd(),
+    })
+  }
+
+  if (entry.fixed) {
+    after.push(heading("Fixed"), { type: "code", lang: "cesium", value: entry.fixed.trimEnd() })
+  }
+
+  tree.children = [...before, ...tree.children, ...after]
+}
+
+/**
+ * Custom transformer that renders generated diagnostic pages from their `diagnostic` frontmatter
+ * Adds the severity badge and the failing and fixed examples, and ships the index page filter
+ */
+export const DiagnosticReference: QuartzTransformerPlugin = () => {
+  return {
+    name: "DiagnosticReference",
+    markdownPlugins() {
+      return [
+        () => (tree: MdRoot, file) => {
+          const entry = file.data.frontmatter?.diagnostic as DiagnosticEntry | undefined
+          if (entry) {
+            renderDiagnostic(tree, entry)
+          }
+        },
+      ]
+    },
+    externalResources() {
+      return {
+        js: [
+          {
+            script,
+            loadTime: "afterDOMReady",
+            contentType: "inline",
+          },
+        ],
+      }
+    },
+  }
+}
@@ -0,0 +1,50 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { Root as MdRoot } from "mdast"
+import { visit } from "unist-util-visit"
+import { toString } from "mdast-util-to-string"
+import Slugger from "github-slugger"
+
+const MARKER = /\s*\{\{explorer:hide\}\}\s*$/
+
+declare module "vfile" {
+  interface DataMap {
+    explorerTocExclude: string[]
+  }
+}
+
+/**
+ * Custom transformer for the `{{explorer:hide}}` heading marker
+ * The marker is removed from the heading and the heading's slug is recorded in
+ * file.data.explorerTocExclude, so the explorer leaves that section out of the page's outline.
+ * Must run before Plugin.TableOfContents so TOC entries and anchors never see the marker.
+ */
+export const ExplorerTocMarkers: QuartzTransformerPlugin = () => {
+  return {
+    name: "ExplorerTocMarkers",
+    markdownPlugins() {
+      return [
+        () => (tree: MdRoot, file) => {
+          // Slugged the same way as TableOfContents, so the recorded slugs match its entries
+          const slugger = new Slugger()
+          const excluded: string[] = []
+
+          visit(tree, "heading", (node) => {
+            const last = node.children[node.children.length - 1]
+            const hidden = last?.type === "text" && MARKER.test(last.value)
+            if (hidden) {
+              last.value = last.value.replace(MARKER, "")
+              if (last.value.length === 0) node.children.pop()
+            }
+
+            const slug = slugger.slug(toString(node))
+            if (hidden) excluded.push(slug)
+          })
+
+          if (excluded.length > 0) {
+            file.data.explorerTocExclude = excluded
+          }
+        },
+      ]
+    },
+  }
+}
@@ -0,0 +1,122 @@
+// Tree model shared by CustomExplorer (server render) and custom-explorer.inline.ts (client)
+import { FileTrieNode } from "./quartz/util/fileTrie"
+import { bySortOrder } from "./sort-order"
+
+export interface TocEntry {
+  depth: number
+  text: string
+  slug: string
+}
+
+// Per-page data the explorer trie is built from, on the server from the build's pages and on the
+// client from static/frontmatterIndex.json. Folders get theirs from their index.md.
+export interface ExplorerData {
+  slug: string
+  title: string
+  filePath: string
+  sortorder: number | null
+  /**
+   * Shown before a folder's name
+   */
+  icon: string | null
+  /**
+   * Overrides the explorer's `folderDefaultState` for a folder
+   */
+  collapsed: boolean | null
+  toc: TocEntry[]
+}
+
+export function explorerData(
+  slug: string,
+  filePath: string,
+  frontmatter: Record<string, unknown>,
+  toc: TocEntry[],
+): ExplorerData {
+  return {
+    slug,
+    filePath,
+    title: typeof frontmatter.title === "string" ? frontmatter.title : slug,
+    sortorder: typeof frontmatter.sortorder === "number" ? frontmatter.sortorder : null,
+    icon: typeof frontmatter.icon === "string" ? frontmatter.icon : null,
+    collapsed: typeof frontmatter.collapsed === "boolean" ? frontmatter.collapsed : null,
+    toc,
+  }
+}
+
+// Default explorer order: bySortOrder, then alphabetical by display name
+export function explorerSort(a: FileTrieNode<ExplorerData>, b: FileTrieNode<ExplorerData>): number {
+  return (
+    bySortOrder(
+      { isFolder: a.isFolder, sortorder: a.data?.sortorder },
+      { isFolder: b.isFolder, sortorder: b.data?.sortorder },
+    ) ||
+    a.displayName.localeCompare(b.displayName, undefined, {
+      numeric: true,
+      sensitivity: "base",
+    })
+  )
+}
+
+export interface HeaderNode extends TocEntry {
+  children: HeaderNode[]
+}
+
+// Build hierarchical header tree from flat TOC list
+export function buildHeaderTree(toc: TocEntry[]): HeaderNode[] {
+  const stack: HeaderNode[] = []
+  const result: HeaderNode[] = []
+
+  for (const entry of toc) {
+    const headerNode: HeaderNode = {
+      ...entry,
+      children: [],
+    }
+
+    // Find the appropriate parent based on depth
+    while (stack.length > 0 && stack[stack.length - 1].depth >= entry.depth) {
+      stack.pop()
+    }
+
+    if (stack.length === 0) {
+      result.push(headerNode)
+    } else {
+      stack[stack.length - 1].children.push(headerNode)
+    }
+
+    stack.push(headerNode)
+  }
+
+  return result
+}
+
+/**
+ * The TOC entries a page shows in the explorer
+ * `explorer_toc: false` hides the outline, `explorer_toc_depth` (or `defaultDepth`) limits it to
+ * that many heading levels, and headings in `excluded` are left out together with their subheadings
+ */
+export function explorerToc(
+  toc: TocEntry[],
+  frontmatter: Record<string, unknown>,
+  excluded: string[] = [],
+  defaultDepth?: number,
+): TocEntry[] {
+  if (frontmatter.explorer_toc === false) return []
+  const maxDepth =
+    typeof frontmatter.explorer_toc_depth === "number" ? frontmatter.explorer_toc_depth : defaultDepth
+
+  const result: TocEntry[] = []
+  let skipBelow: number | null = null
+  for (const entry of toc) {
+    if (skipBelow !== null && entry.depth > skipBelow) continue
+    skipBelow = null
+    if (excluded.includes(entry.slug)) {
+      skipBelow = entry.depth
+      continue
+    }
+    // TOC depths start at 0 for the page's highest heading level
+    if (maxDepth === undefined || entry.depth < maxDepth) {
+      result.push(entry)
+    }
+  }
+  return result
+}
@@ -1,6 +1,9 @@
 import { QuartzEmitterPlugin } from "./quartz/plugins/types"
+import { QuartzPluginData } from "./quartz/plugins/vfile"
 import { joinSegments } from "./quartz/util/path"
 import { write } from "./quartz/plugins/emitters/helpers"
+import { createHash } from "crypto"
+import { explorerToc } from "./explorer-tree"
 
 interface Options {
   // No specific options needed for now
@@ -8,6 +11,38 @@ interface Options {
 
 const defaultOptions: Options = {}
 
+/**
+ * Build the index of frontmatter and TOC data for the given pages
+ * Shared with CustomExplorer, which hashes it so clients can cache the emitted file
+ */
+export function buildFrontmatterIndex(files: QuartzPluginData[]): Record<string, any> {
+  const frontmatterIndex: Record<string, any> = {}
+
+  for (const file of files) {
+    const slug = file.slug!
+
+    // Extract frontmatter data
+    const frontmatter = file.frontmatter || {}
+
+    // Extract TOC data for navigation tree, minus the headings the page keeps out of the explorer
+    const toc = explorerToc(file.toc || [], frontmatter, file.explorerTocExclude)
+
+    // Include files that have frontmatter data, TOC data, or both
+    if (Object.keys(frontmatter).length > 0 || toc.length > 0) {
+      frontmatterIndex[slug] = {
+        ...frontmatter,
+        toc: toc,
+      }
+    }
+  }
+
+  return frontmatterIndex
+}
+
+export function frontmatterIndexHash(frontmatterIndex: Record<string, any>): string {
+  return createHash("sha256").update(JSON.stringify(frontmatterIndex)).digest("hex").slice(0, 12)
+}
+
 /**
  * Custom emitter that creates an index of frontmatter and TOC data for all pages
  * This allows the custom Explorer to access sortorder, TOC headers, and other frontmatter fields
@@ -18,25 +53,7 @@ export const FrontmatterIndex: QuartzEmitterPlugin<Partial<Options>> = (opts) =>
   return {
     name: "FrontmatterIndex",
     async *emit(ctx, content) {
-      const frontmatterIndex: Record<string, any> = {}
-      
-      for (const [tree, file] of content) {
-        const slug = file.data.slug!
-        
-        // Extract frontmatter data
-        const frontmatter = file.data.frontmatter || {}
-        
-        // Extract TOC data for navigation tree
-        const toc = file.data.toc || []
-        
-        // Include files that have frontmatter data, TOC data, or both
-        if (Object.keys(frontmatter).length > 0 || toc.length > 0) {
-          frontmatterIndex[slug] = {
-            ...frontmatter,
-            toc: toc
-          }
-        }
-      }
+      const frontmatterIndex = buildFrontmatterIndex(content.map(([_tree, file]) => file.data))
       
       // Write the frontmatter index as a JSON file
       const fp = joinSegments("static", "frontmatterIndex")
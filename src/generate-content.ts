@@ -0,0 +1,20 @@
+import { generateApiPages } from "./api-reference"
+import { generateDiagnosticPages } from "./diagnostics"
+import * as path from "path"
+
+// Writes the generated content folders before Quartz reads the content directory. build.js runs
+// this from quartz_repo/ each time it starts Quartz (and so again when cesium-src/ or data/
+// change), so paths need the same extra ../ as in quartz.config.ts.
+
+// API reference pages from the doc comments in the cesium-src submodule, into content/api/
+generateApiPages({
+  sourceDir: path.resolve("../cesium-src"),
+  outputDir: path.resolve("../content/api"),
+})
+
+// Compiler diagnostic pages (errors/<code>) from the registry into content/errors/, with
+// /e/<code> short links as aliases
+generateDiagnosticPages({
+  registryDir: path.resolve("../data/diagnostics"),
+  outputDir: path.resolve("../content/errors"),
+})
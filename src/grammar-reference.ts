@@ -0,0 +1,275 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { Root as MdRoot, RootContent as MdContent, PhrasingContent, TableRow } from "mdast"
+import { visit } from "unist-util-visit"
+import { LanguageRegistration } from "shiki"
+import { createGrammarTokenizer, GrammarTokenizer } from "./grammar-tokenizer"
+
+interface Options {
+  /**
+   * The TextMate grammar used by CustomSyntaxHighlighting for Cesium code
+   */
+  grammar: LanguageRegistration
+  /**
+   * Code language used for the highlighted examples
+   */
+  lang: string
+}
+
+const defaultOptions: Omit<Options, "grammar"> = {
+  lang: "cesium",
+}
+
+type Section = "keywords" | "operators" | "literals" | "comments"
+
+interface GrammarRule {
+  name?: string
+  match?: string
+  begin?: string
+  end?: string
+  patterns?: GrammarRule[]
+  repository?: Record<string, GrammarRule>
+}
+
+interface GrammarItem {
+  label: string
+  example: string
+  scope: string
+}
+
+// Literal forms are regex-driven in the grammar, so they are shown through representative
+// samples; the scope column still comes from tokenizing each sample with the grammar.
+const literalSamples: { label: string; example: string }[] = [
+  { label: "Decimal integer", example: "42" },
+  { label: "Hexadecimal integer", example: "0xFF" },
+  { label: "Binary integer", example: "0b11110000" },
+  { label: "Floating point", example: "3.14159" },
+  { label: "Character", example: "'A'" },
+  { label: "String", example: '"Hello, world!\\n"' },
+  { label: "Interpolated string", example: "`Hello, {name}!`" },
+]
+
+const DIRECTIVE = /^\{\{grammar:(\w+)\}\}$/
+
+function collectRules(rule: GrammarRule, out: GrammarRule[] = []): GrammarRule[] {
+  if (rule.name && (rule.match || rule.begin)) {
+    out.push(rule)
+  }
+  for (const child of rule.patterns ?? []) {
+    collectRules(child, out)
+  }
+  for (const child of Object.values(rule.repository ?? {})) {
+    collectRules(child, out)
+  }
+  return out
+}
+
+// Turn an escaped regex fragment back into the literal text it matches, or null if it isn't literal
+function unescapeLiteral(fragment: string): string | null {
+  let out = ""
+  for (let i = 0; i < fragment.length; i++) {
+    const c = fragment[i]
+    if (c === "\\") {
+      const next = fragment[++i]
+      if (next === undefined || /[A-Za-z0-9]/.test(next)) return null
+      out += next
+    } else if ("()[]{}?*+.|^$".includes(c)) {
+      return null
+    } else {
+      out += c
+    }
+  }
+  return out.length > 0 ? out : null
+}
+
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ""
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i]
+    if (c === "\\") {
+      current += c + (body[++i] ?? "")
+      continue
+    }
+    if (c === "(" || c === "[") depth++
+    if (c === ")" || c === "]") depth--
+    if (c === "|" && depth === 0) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += c
+    }
+  }
+  return [...parts, current]
+}
+
+function closingParen(regex: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < regex.length; i++) {
+    if (regex[i] === "\\") i++
+    else if (regex[i] === "(") depth++
+    else if (regex[i] === ")" && --depth === 0) return i
+  }
+  return -1
+}
+
+/**
+ * Extract the literal words of a `\b(if|else|while)\b` style rule.
+ * Alternatives that are real regex (character classes, quantifiers) are skipped.
+ */
+function literalAlternatives(regex: string): string[] {
+  let body = regex
+    .replace(/\(\?<?[=!](?:\\.|[^)])*\)/g, "")
+    .replace(/\\b/g, "")
+    .replace(/^\^|\$$/g, "")
+  if (body.startsWith("(") && closingParen(body, 0) === body.length - 1) {
+    body = body.slice(body.startsWith("(?:") ? 3 : 1, -1)
+  }
+
+  return splitAlternatives(body)
+    .map(unescapeLiteral)
+    .filter((literal): literal is string => literal !== null)
+}
+
+// Deepest scope the grammar assigns to the first visible token of `code`
+function tokenScope(tokenizer: GrammarTokenizer, code: string): string | undefined {
+  const token = tokenizer(code)
+    .flat()
+    .find((token) => token.text.trim().length > 0)
+  return token && token.scopes.length > 1 ? token.scopes[token.scopes.length - 1] : undefined
+}
+
+function sectionOf(scope: string): Section | undefined {
+  if (scope.startsWith("comment.")) return "comments"
+  if (scope.startsWith("keyword.operator.")) return "operators"
+  if (scope.startsWith("constant.") || scope.startsWith("string.")) return "literals"
+  if (/^(keyword|storage|variable\.language)\./.test(scope)) return "keywords"
+  return undefined
+}
+
+function buildSections(grammar: LanguageRegistration, tokenizer: GrammarTokenizer) {
+  const sections: Record<Section, GrammarItem[]> = {
+    keywords: [],
+    operators: [],
+    literals: [],
+    comments: [],
+  }
+  const seen = new Set<string>()
+  const add = (section: Section, item: GrammarItem) => {
+    const key = `${section}:${item.example}`
+    if (seen.has(key)) return
+    seen.add(key)
+    sections[section].push(item)
+  }
+
+  for (const rule of collectRules(grammar as GrammarRule)) {
+    const section = sectionOf(rule.name!)
+    if (!section) continue
+
+    if (section === "comments") {
+      const begin = unescapeLiteral(rule.begin ?? rule.match?.replace(/\.\*\$?$/, "") ?? "")
+      const end = rule.begin ? unescapeLiteral(rule.end ?? "") : ""
+      if (begin === null || end === null) continue
+      const example = end ? `${begin} comment ${end}` : `${begin} comment`
+      add(section, { label: end ? `${begin} … ${end}` : `${begin} …`, example, scope: rule.name! })
+      continue
+    }
+
+    if (!rule.match) continue
+    for (const literal of literalAlternatives(rule.match)) {
+      add(section, {
+        label: literal,
+        example: literal,
+        scope: tokenScope(tokenizer, literal) ?? rule.name!,
+      })
+    }
+  }
+
+  for (const sample of literalSamples) {
+    const scope = tokenScope(tokenizer, sample.example)
+    if (scope) {
+      add("literals", { ...sample, scope })
+    }
+  }
+
+  sections.keywords.sort((a, b) => a.label.localeCompare(b.label))
+  return sections
+}
+
+function cell(...children: PhrasingContent[]) {
+  return { type: "tableCell" as const, children }
+}
+
+function renderTable(section: Section, items: GrammarItem[], lang: string): MdContent {
+  const highlighted = (code: string): PhrasingContent => ({
+    type: "inlineCode",
+    value: `${code}{:${lang}}`,
+  })
+  const plain = (value: string): PhrasingContent => ({ type: "text", value })
+  const scope = (value: string): PhrasingContent => ({ type: "inlineCode", value })
+
+  // Keywords and operators are their own example; other forms get a label column
+  const showLabel = section === "literals" || section === "comments"
+  const header: TableRow = {
+    type: "tableRow",
+    children: showLabel
+      ? [cell(plain("Form")), cell(plain("Example")), cell(plain("Scope"))]
+      : [cell(plain(section === "keywords" ? "Keyword" : "Operator")), cell(plain("Scope"))],
+  }
+  const rows: TableRow[] = items.map((item) => ({
+    type: "tableRow",
+    children: showLabel
+      ? [cell(plain(item.label)), cell(highlighted(item.example)), cell(scope(item.scope))]
+      : [cell(highlighted(item.example)), cell(scope(item.scope))],
+  }))
+
+  return {
+    type: "table",
+    align: showLabel ? ["left", "left", "left"] : ["left", "left"],
+    children: [header, ...rows],
+  }
+}
+
+/**
+ * Custom transformer that replaces `{{grammar:<section>}}` paragraphs with tables generated
+ * from the TextMate grammar, so the grammar reference always matches the site highlighter
+ * Supported sections: keywords, operators, literals, comments
+ */
+export const GrammarReference: QuartzTransformerPlugin<Partial<Options> & Pick<Options, "grammar">> = (
+  userOpts,
+) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+  let sections: Promise<Record<Section, GrammarItem[]>> | undefined
+
+  return {
+    name: "GrammarReference",
+    markdownPlugins() {
+      return [
+        () => async (tree: MdRoot, file) => {
+          const directives: { parent: MdRoot; index: number; section: string }[] = []
+          visit(tree, "paragraph", (node, index, parent) => {
+            const [child] = node.children
+            const match = node.children.length === 1 && child.type === "text" && child.value.trim().match(DIRECTIVE)
+            if (match && parent && index !== undefined) {
+              directives.push({ parent: parent as MdRoot, index, section: match[1] })
+            }
+          })
+          if (directives.length === 0) return
+
+          sections ??= createGrammarTokenizer(opts.grammar).then((tokenizer) =>
+            buildSections(opts.grammar, tokenizer),
+          )
+          const tables = await sections
+
+          for (const { parent, index, section } of directives) {
+            if (!(section in tables)) {
+              console.warn(`Unknown grammar section "${section}" in ${file.data.filePath}`)
+              continue
+            }
+            parent.children[index] = renderTable(section as Section, tables[section as Section], opts.lang)
+          }
+        },
+      ]
+    },
+  }
+}
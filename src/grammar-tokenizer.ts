@@ -0,0 +1,41 @@
+import { getHighlighter, LanguageRegistration } from "shiki"
+
+export interface GrammarToken {
+  line: number
+  column: number
+  text: string
+  scopes: string[]
+}
+
+export type GrammarTokenizer = (code: string) => GrammarToken[][]
+
+/**
+ * Load a TextMate grammar into its own shiki highlighter and return a tokenizer for it.
+ * Each token carries the full scope stack (root scope first), one array per source line.
+ */
+export async function createGrammarTokenizer(grammar: LanguageRegistration): Promise<GrammarTokenizer> {
+  const highlighter = await getHighlighter({
+    themes: ["light-plus"],
+    langs: [grammar],
+  })
+
+  return (code) =>
+    highlighter
+      .codeToTokensBase(code, { lang: grammar.name, theme: "light-plus", includeExplanation: true })
+      .map((tokens, lineIndex) => {
+        const lineTokens: GrammarToken[] = []
+        let column = 1
+        for (const token of tokens) {
+          for (const part of token.explanation ?? []) {
+            lineTokens.push({
+              line: lineIndex + 1,
+              column,
+              text: part.content,
+              scopes: part.scopes.map((scope) => scope.scopeName),
+            })
+            column += part.content.length
+          }
+        }
+        return lineTokens
+      })
+}
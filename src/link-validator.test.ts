@@ -0,0 +1,45 @@
+import test, { describe } from "node:test"
+import assert from "node:assert"
+import { unified } from "unified"
+import remarkParse from "remark-parse"
+import remarkRehype from "remark-rehype"
+import { Root } from "hast"
+import { decodeAnchor, findDuplicateHeadings } from "./link-validator"
+
+function toHast(markdown: string): Root {
+  const processor = unified().use(remarkParse).use(remarkRehype)
+  return processor.runSync(processor.parse(markdown)) as Root
+}
+
+describe("findDuplicateHeadings", () => {
+  test("reports headings that slug to the same anchor", () => {
+    const page = ["# Page", "", "## Setup", "", "First.", "", "## Setup", "", "Second."].join("\n")
+    const problems = findDuplicateHeadings(toHast(page))
+    assert.strictEqual(problems.length, 1)
+    assert.strictEqual(problems[0].kind, "duplicate-heading")
+    assert.match(problems[0].message, /^#setup is shared by 2 headings/)
+  })
+
+  test("reports headings that only differ in punctuation and case", () => {
+    const problems = findDuplicateHeadings(toHast("## Error handling\n\n## Error Handling!"))
+    assert.strictEqual(problems.length, 1)
+  })
+
+  test("accepts distinct headings", () => {
+    assert.deepStrictEqual(findDuplicateHeadings(toHast("## Setup\n\n## Usage")), [])
+  })
+})
+
+describe("decodeAnchor", () => {
+  test("decodes percent-encoded anchors", () => {
+    assert.strictEqual(decodeAnchor("../page#caf%C3%A9"), "café")
+  })
+
+  test("returns an empty anchor for links without one", () => {
+    assert.strictEqual(decodeAnchor("../page"), "")
+  })
+
+  test("returns null for malformed percent-encoding", () => {
+    assert.strictEqual(decodeAnchor("../page#100%"), null)
+  })
+})
@@ -0,0 +1,213 @@
+import { QuartzEmitterPlugin } from "./quartz/plugins/types"
+import { FullSlug, joinSegments, simplifySlug } from "./quartz/util/path"
+import { ProcessedContent } from "./quartz/plugins/vfile"
+import { Element, Root } from "hast"
+import { visit } from "unist-util-visit"
+import { slug as slugAnchor } from "github-slugger"
+import path from "path"
+import chalk from "chalk"
+
+interface Options {
+  /**
+   * Throw once the report has been printed so the Quartz build exits non-zero
+   */
+  failOnError: boolean
+  /**
+   * Also report duplicate heading slugs within a page
+   */
+  checkDuplicateHeadings: boolean
+}
+
+const defaultOptions: Options = {
+  failOnError: false,
+  checkDuplicateHeadings: true,
+}
+
+type ProblemKind = "broken-link" | "broken-anchor" | "duplicate-heading"
+
+export interface Problem {
+  kind: ProblemKind
+  message: string
+}
+
+// Every slug a link may legitimately point at: pages, aliases, generated folder and tag pages
+function collectKnownSlugs(allSlugs: FullSlug[], content: ProcessedContent[]): Set<string> {
+  const known = new Set<string>(allSlugs)
+  known.add("tags/index")
+
+  for (const [_tree, file] of content) {
+    const slug = file.data.slug!
+    known.add(slug)
+
+    for (const alias of file.data.aliases ?? []) {
+      known.add(alias)
+    }
+
+    for (const tag of file.data.frontmatter?.tags ?? []) {
+      known.add(joinSegments("tags", tag))
+    }
+
+    // Folder pages are emitted for every parent folder, index.md or not
+    let folder = path.posix.dirname(slug)
+    while (folder !== ".") {
+      known.add(joinSegments(folder, "index"))
+      folder = path.posix.dirname(folder)
+    }
+  }
+
+  return known
+}
+
+// Anchors a page exposes, taken from the TOC plus every rendered element id
+function collectAnchors(tree: Root, toc: { slug: string }[]): Set<string> {
+  const anchors = new Set<string>(toc.map((entry) => entry.slug))
+  visit(tree, "element", (node: Element) => {
+    const id = node.properties?.id
+    if (typeof id === "string") {
+      anchors.add(id)
+    }
+  })
+  return anchors
+}
+
+function elementText(node: Element): string {
+  let text = ""
+  visit(node, "text", (child: { value: string }) => {
+    text += child.value
+  })
+  return text.trim()
+}
+
+/**
+ * Headings whose text slugs to the same anchor. The TOC and heading ids can't be used for this:
+ * the slugger has already made them unique (`foo`, `foo-1`), so later headings silently get an
+ * anchor nobody links to.
+ */
+export function findDuplicateHeadings(tree: Root): Problem[] {
+  const seen = new Map<string, string[]>()
+  visit(tree, "element", (node: Element) => {
+    if (!/^h[1-6]$/.test(node.tagName)) return
+    const text = elementText(node)
+    const anchor = slugAnchor(text)
+    seen.set(anchor, [...(seen.get(anchor) ?? []), text])
+  })
+
+  return [...seen.entries()]
+    .filter(([_anchor, texts]) => texts.length > 1)
+    .map(([anchor, texts]) => ({
+      kind: "duplicate-heading" as const,
+      message: `#${anchor} is shared by ${texts.length} headings (${texts.map((t) => `"${t}"`).join(", ")})`,
+    }))
+}
+
+/**
+ * The anchor of an href, decoded; null when it isn't valid percent-encoding
+ */
+export function decodeAnchor(href: string): string | null {
+  const hashIndex = href.indexOf("#")
+  if (hashIndex === -1) return ""
+  try {
+    return decodeURIComponent(href.slice(hashIndex + 1))
+  } catch {
+    return null
+  }
+}
+
+function printReport(problems: Map<FullSlug, Problem[]>) {
+  const total = [...problems.values()].reduce((sum, list) => sum + list.length, 0)
+  const lines = [
+    chalk.red(`Found ${total} broken reference(s) in ${problems.size} page(s):`),
+  ]
+
+  for (const slug of [...problems.keys()].sort()) {
+    lines.push("", `  ${chalk.bold(slug)}`)
+    for (const problem of problems.get(slug)!) {
+      lines.push(`    ${chalk.yellow(problem.kind.padEnd(17))} ${problem.message}`)
+    }
+  }
+
+  console.warn(lines.join("\n") + "\n")
+}
+
+/**
+ * Custom emitter that validates internal links, heading anchors and TOC slugs across all pages
+ * Nothing is written to the output; problems are printed and optionally fail the build
+ */
+export const LinkValidator: QuartzEmitterPlugin<Partial<Options>> = (userOpts) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+
+  return {
+    name: "LinkValidator",
+    async *emit(ctx, content) {
+      const knownSlugs = collectKnownSlugs(ctx.allSlugs, content)
+
+      const anchorsBySlug = new Map<string, Set<string>>()
+      for (const [tree, file] of content) {
+        anchorsBySlug.set(file.data.slug!, collectAnchors(tree, file.data.toc ?? []))
+      }
+
+      const problems = new Map<FullSlug, Problem[]>()
+      const report = (slug: FullSlug, problem: Problem) => {
+        problems.set(slug, [...(problems.get(slug) ?? []), problem])
+      }
+
+      for (const [tree, file] of content) {
+        const slug = file.data.slug!
+
+        visit(tree, "element", (node: Element) => {
+          if (node.tagName !== "a" || typeof node.properties?.href !== "string") return
+
+          const href = node.properties.href
+          const classes = (node.properties.className ?? []) as string[]
+          const isSamePage = href.startsWith("#")
+          if (!isSamePage && !classes.includes("internal")) return
+
+          // CrawlLinks resolves every internal href to a full slug for us
+          const target = (isSamePage ? slug : node.properties["data-slug"]) as FullSlug | undefined
+          if (!target) return
+
+          const text = elementText(node) || href
+          if (!knownSlugs.has(target)) {
+            report(slug, {
+              kind: "broken-link",
+              message: `"${text}" -> ${simplifySlug(target)} (no such page)`,
+            })
+            return
+          }
+
+          const anchor = decodeAnchor(href)
+          if (anchor === null) {
+            report(slug, {
+              kind: "broken-anchor",
+              message: `"${text}" -> ${href} (malformed anchor)`,
+            })
+            return
+          }
+          if (anchor.length === 0) return
+
+          // Generated pages (folders, tags) have no anchors to check against
+          const anchors = anchorsBySlug.get(target)
+          if (anchors && !anchors.has(anchor)) {
+            report(slug, {
+              kind: "broken-anchor",
+              message: `"${text}" -> ${simplifySlug(target)}#${anchor} (no such heading)`,
+            })
+          }
+        })
+
+        if (opts.checkDuplicateHeadings) {
+          for (const problem of findDuplicateHeadings(tree)) {
+            report(slug, problem)
+          }
+        }
+      }
+
+      if (problems.size > 0) {
+        printReport(problems)
+        if (opts.failOnError) {
+          throw new Error("Broken references found, see report above")
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import { QuartzPluginData } from "./quartz/plugins/vfile"
+import { GlobalConfiguration } from "./quartz/cfg"
+import { getDate } from "./quartz/components/Date"
+import { isFolderPath } from "./quartz/util/path"
+import { bySortOrder } from "./sort-order"
+
+// Custom sort function that respects sortorder frontmatter, in the same order as the explorer
+export function bySortOrderAndAlphabetical(cfg: GlobalConfiguration) {
+  return (f1: QuartzPluginData, f2: QuartzPluginData) => {
+    const bySortOrderFirst = bySortOrder(
+      { isFolder: isFolderPath(f1.slug ?? ""), sortorder: f1.frontmatter?.sortorder },
+      { isFolder: isFolderPath(f2.slug ?? ""), sortorder: f2.frontmatter?.sortorder },
+    )
+    if (bySortOrderFirst !== 0) return bySortOrderFirst
+
+    // Neither has sortorder, fall back to default sorting
+    if (f1.dates && f2.dates) {
+      // sort descending by date
+      return getDate(cfg, f2)!.getTime() - getDate(cfg, f1)!.getTime()
+    } else if (f1.dates && !f2.dates) {
+      // prioritize files with dates
+      return -1
+    } else if (!f1.dates && f2.dates) {
+      return 1
+    }
+
+    // otherwise, sort lexographically by title
+    const f1Title = f1.frontmatter?.title?.toLowerCase() ?? ""
+    const f2Title = f2.frontmatter?.title?.toLowerCase() ?? ""
+    return f1Title.localeCompare(f2Title)
+  }
+}
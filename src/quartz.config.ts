@@ -2,7 +2,19 @@ import { QuartzConfig } from "./quartz/cfg"
 import * as Plugin from "./quartz/plugins"
 import { CustomSyntaxHighlighting } from "./custom-syntax-highlighting"
 import { FrontmatterIndex } from "./frontmatter-index"
+import { LinkValidator } from "./link-validator"
+import { CesiumSnippetCorpus } from "./snippet-corpus"
+import { ApiIndex, ApiReference } from "./api-reference"
+import { GrammarReference } from "./grammar-reference"
+import { RailroadDiagrams } from "./railroad-diagrams"
+import { CodeGroups } from "./code-groups"
+import { CodeCrossReferences } from "./code-xref"
+import { BuiltinCatalog, catalogSymbols, loadBuiltinCatalog } from "./builtin-catalog"
+import { DiagnosticReference } from "./diagnostics"
 import { CustomFolderPage } from "./custom-folder-page"
+import { ExplorerTocMarkers } from "./explorer-toc"
+import { activeBuildProfile } from "./build-profiles"
+import { withTimings } from "./build-timings"
 import * as fs from "fs"
 import * as path from "path"
 import { getHighlighter } from "shiki";
@@ -13,6 +25,17 @@ import { getHighlighter } from "shiki";
 const cesiumGrammarPath = path.resolve("../grammar/cesium.tmGrammar.json")
 const cesiumGrammar = JSON.parse(fs.readFileSync(cesiumGrammarPath, "utf-8"))
 
+// Built-in function catalog, one data file per function, rendered into
+// the builtin-functions page.
+const builtins = loadBuiltinCatalog(path.resolve("../data/builtins"))
+
+// Set by build.js in --no-build-dir (CI) mode so checks fail the build
+// instead of only printing warnings.
+const strictBuild = process.env.CESIUM_STRICT_BUILD === "1"
+
+// Which expensive plugins run, from `build.js --profile <name>` (see build-profiles.ts)
+const { profile } = activeBuildProfile()
+
 // // Load custom Cesium theme based on your VS Code settings
 // const cesiumThemePath = path.resolve("./cesium-shiki-theme.json")
 // const cesiumTheme = JSON.parse(fs.readFileSync(cesiumThemePath, "utf-8"))
@@ -74,10 +97,16 @@ const config: QuartzConfig = {
   plugins: {
     transformers: [
       Plugin.FrontMatter(),
+      ApiReference(),
+      DiagnosticReference(),
+      GrammarReference({ grammar: cesiumGrammar }),
+      BuiltinCatalog({ entries: builtins }),
       Plugin.CreatedModifiedDate({
         priority: ["frontmatter", "git", "filesystem"],
       }),
       // Plugin.SyntaxHighlighting(),
+      RailroadDiagrams(),
+      CodeGroups(),
       CustomSyntaxHighlighting({
         theme: {
           light: "light-plus",
@@ -97,10 +126,16 @@ const config: QuartzConfig = {
       }),
       Plugin.ObsidianFlavoredMarkdown({ enableInHtmlEmbed: false }),
       Plugin.GitHubFlavoredMarkdown(),
+      // Before TableOfContents so `{{explorer:hide}}` never reaches TOC entries or anchors
+      ExplorerTocMarkers(),
       Plugin.TableOfContents({ maxDepth: 6 }),
       Plugin.CrawlLinks({ markdownLinkResolution: "shortest" }),
+      // After CrawlLinks so identifier links stay out of backlinks and the graph
+      CodeCrossReferences({
+        symbols: catalogSymbols(builtins, "reference/builtin-functions"),
+      }),
       Plugin.Description(),
-      Plugin.Latex({ renderEngine: "katex" }),
+      ...(profile.latex ? [Plugin.Latex({ renderEngine: "katex" })] : []),
     ],
     filters: [Plugin.RemoveDrafts()],
     emitters: [
@@ -111,17 +146,24 @@ const config: QuartzConfig = {
       Plugin.TagPage(),
       Plugin.ContentIndex({
         enableSiteMap: true,
-        enableRSS: true,
+        enableRSS: profile.rss,
       }),
       Plugin.Assets(),
       Plugin.Static(),
       Plugin.Favicon(),
       Plugin.NotFoundPage(),
-      // Comment out CustomOgImages to speed up build time
-      Plugin.CustomOgImages(),
+      ...(profile.ogImages ? [Plugin.CustomOgImages()] : []),
       FrontmatterIndex(),
+      ApiIndex(),
+      LinkValidator({ failOnError: strictBuild }),
+      CesiumSnippetCorpus({ grammar: cesiumGrammar }),
     ],
   },
 }
 
+// `build.js --timings` reports how long each transformer and emitter took
+if (process.env.CESIUM_TIMINGS === "1") {
+  config.plugins = withTimings(config.plugins)
+}
+
 export default config
@@ -3,12 +3,14 @@ import * as Component from "./quartz/components"
 import { CustomExplorer } from "./custom-explorer"
 import CustomPageTitle from "./custom-pagetitle"
 import { CustomStylesheets } from "./custom-stylesheets"
+import { PageNavigation } from "./custom-page-nav"
 
 // components shared across all pages
 export const sharedPageComponents: SharedLayout = {
   head: Component.Head(),
   header: [CustomStylesheets({})],
-  afterBody: [],
+  // Renders nothing on pages outside the reading order (home, folder and tag pages)
+  afterBody: [PageNavigation()],
   footer: Component.Footer({
     links: {
       GitHub: "https://github.com/cesiumlang/cesium",
@@ -0,0 +1,428 @@
+import { QuartzTransformerPlugin } from "./quartz/plugins/types"
+import { Root as MdRoot, RootContent as MdContent, Code } from "mdast"
+import { visit } from "unist-util-visit"
+
+interface Options {
+  /**
+   * Code block language that is rendered as railroad diagrams
+   */
+  lang: string
+  /**
+   * Prefix for the anchor id of each production
+   */
+  idPrefix: string
+  /**
+   * Language used to highlight the raw EBNF shown behind the toggle
+   */
+  sourceLang: string
+}
+
+const defaultOptions: Options = {
+  lang: "ebnf",
+  idPrefix: "ebnf-",
+  sourceLang: "plaintext",
+}
+
+type Expr =
+  | { type: "terminal"; text: string }
+  | { type: "nonterminal"; name: string }
+  | { type: "sequence"; items: Expr[] }
+  | { type: "choice"; options: Expr[] }
+  | { type: "optional"; item: Expr }
+  | { type: "repeat"; item: Expr; min: 0 | 1 }
+  | { type: "skip" }
+
+interface Production {
+  name: string
+  expr: Expr
+}
+
+class EbnfSyntaxError extends Error {}
+
+// ---- Parsing ----
+
+type Token = { kind: "ident" | "string" | "symbol"; value: string; offset: number }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s+|\(\*[\s\S]*?\*\)|([A-Za-z_][\w-]*)|'([^']*)'|"([^"]*)"|(::=|[=|;,()[\]{}?*+])/y
+  let offset = 0
+
+  while (offset < source.length) {
+    pattern.lastIndex = offset
+    const match = pattern.exec(source)
+    if (!match) {
+      throw new EbnfSyntaxError(`Unexpected character "${source[offset]}" at offset ${offset}`)
+    }
+    if (match[1] !== undefined) tokens.push({ kind: "ident", value: match[1], offset })
+    else if (match[2] !== undefined) tokens.push({ kind: "string", value: match[2], offset })
+    else if (match[3] !== undefined) tokens.push({ kind: "string", value: match[3], offset })
+    else if (match[4] !== undefined) tokens.push({ kind: "symbol", value: match[4], offset })
+    offset = pattern.lastIndex
+  }
+
+  return tokens
+}
+
+/**
+ * Parse `name = expression ;` productions (`::=` and a missing `;` are accepted).
+ * Supports `|`, optional `,` concatenation, `[ ]`, `{ }`, `( )` and `?`/`*`/`+` suffixes.
+ */
+function parseEbnf(source: string): Production[] {
+  const tokens = tokenize(source)
+  let pos = 0
+
+  const peek = (offset = 0) => tokens[pos + offset]
+  const isSymbol = (value: string, offset = 0) =>
+    peek(offset)?.kind === "symbol" && peek(offset).value === value
+  const startsProduction = () =>
+    peek()?.kind === "ident" && (isSymbol("=", 1) || isSymbol("::=", 1))
+  const expect = (value: string) => {
+    if (!isSymbol(value)) {
+      const found = peek() ? `"${peek().value}" at offset ${peek().offset}` : "end of input"
+      throw new EbnfSyntaxError(`Expected "${value}" but found ${found}`)
+    }
+    pos++
+  }
+
+  const parseChoice = (): Expr => {
+    const options = [parseSequence()]
+    while (isSymbol("|")) {
+      pos++
+      options.push(parseSequence())
+    }
+    return options.length === 1 ? options[0] : { type: "choice", options }
+  }
+
+  const parseSequence = (): Expr => {
+    const items: Expr[] = []
+    while (peek() && !startsProduction() && !["|", ")", "]", "}", ";"].some((s) => isSymbol(s))) {
+      if (isSymbol(",")) {
+        pos++
+        continue
+      }
+      items.push(parseTerm())
+    }
+    if (items.length === 0) return { type: "skip" }
+    return items.length === 1 ? items[0] : { type: "sequence", items }
+  }
+
+  const parseTerm = (): Expr => {
+    let expr = parseFactor()
+    while (isSymbol("?") || isSymbol("*") || isSymbol("+")) {
+      const suffix = peek().value
+      pos++
+      if (suffix === "?") expr = { type: "optional", item: expr }
+      else expr = { type: "repeat", item: expr, min: suffix === "+" ? 1 : 0 }
+    }
+    return expr
+  }
+
+  const parseFactor = (): Expr => {
+    const token = peek()
+    if (token.kind === "ident") {
+      pos++
+      return { type: "nonterminal", name: token.value }
+    }
+    if (token.kind === "string") {
+      pos++
+      return { type: "terminal", text: token.value }
+    }
+
+    const groups: Record<string, [string, (item: Expr) => Expr]> = {
+      "(": [")", (item) => item],
+      "[": ["]", (item) => ({ type: "optional", item })],
+      "{": ["}", (item) => ({ type: "repeat", item, min: 0 })],
+    }
+    const group = groups[token.value]
+    if (!group) {
+      throw new EbnfSyntaxError(`Unexpected "${token.value}" at offset ${token.offset}`)
+    }
+    pos++
+    const item = parseChoice()
+    expect(group[0])
+    return group[1](item)
+  }
+
+  const productions: Production[] = []
+  while (pos < tokens.length) {
+    const name = peek()
+    if (name.kind !== "ident") {
+      throw new EbnfSyntaxError(`Expected a production name at offset ${name.offset}`)
+    }
+    pos++
+    if (isSymbol("::=")) pos++
+    else expect("=")
+
+    productions.push({ name: name.value, expr: parseChoice() })
+    if (isSymbol(";")) pos++
+  }
+
+  return productions
+}
+
+// ---- Layout and SVG rendering ----
+
+const BOX_HEIGHT = 24
+const CHAR_WIDTH = 8
+const BOX_PADDING = 10
+const GAP = 10
+const ARC = 10
+const VGAP = 8
+const MARGIN = 10
+
+interface Size {
+  width: number
+  up: number
+  down: number
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// Optional and zero-or-more are drawn as a choice with an empty bypass
+function normalize(expr: Expr): Expr {
+  switch (expr.type) {
+    case "optional":
+      return { type: "choice", options: [normalize(expr.item), { type: "skip" }] }
+    case "repeat": {
+      const loop: Expr = { type: "repeat", item: normalize(expr.item), min: 1 }
+      return expr.min === 0 ? { type: "choice", options: [loop, { type: "skip" }] } : loop
+    }
+    case "sequence":
+      return { type: "sequence", items: expr.items.map(normalize) }
+    case "choice":
+      return { type: "choice", options: expr.options.map(normalize) }
+    default:
+      return expr
+  }
+}
+
+function measure(expr: Expr): Size {
+  switch (expr.type) {
+    case "terminal":
+    case "nonterminal": {
+      const label = expr.type === "terminal" ? expr.text : expr.name
+      return { width: label.length * CHAR_WIDTH + 2 * BOX_PADDING, up: BOX_HEIGHT / 2, down: BOX_HEIGHT / 2 }
+    }
+    case "skip":
+      return { width: 0, up: 0, down: 0 }
+    case "sequence": {
+      const sizes = expr.items.map(measure)
+      return {
+        width: sizes.reduce((sum, size) => sum + size.width, 0) + GAP * (sizes.length - 1),
+        up: Math.max(...sizes.map((size) => size.up)),
+        down: Math.max(...sizes.map((size) => size.down)),
+      }
+    }
+    case "choice": {
+      const sizes = expr.options.map(measure)
+      const offsets = branchOffsets(sizes)
+      const last = sizes.length - 1
+      return {
+        width: Math.max(...sizes.map((size) => size.width)) + 4 * ARC,
+        up: sizes[0].up,
+        down: offsets[last] + sizes[last].down,
+      }
+    }
+    case "repeat": {
+      const size = measure(expr.item)
+      return { width: size.width + 2 * ARC, up: size.up, down: loopOffset(size) }
+    }
+    default:
+      throw new Error(`Unexpected ${expr.type} after normalization`)
+  }
+}
+
+// Vertical distance from the main track to each alternative's track
+function branchOffsets(sizes: Size[]): number[] {
+  const offsets = [0]
+  let bottom = sizes[0].down
+  for (const size of sizes.slice(1)) {
+    const offset = Math.max(bottom + VGAP + size.up, 2 * ARC)
+    offsets.push(offset)
+    bottom = offset + size.down
+  }
+  return offsets
+}
+
+function loopOffset(size: Size): number {
+  return Math.max(size.down + VGAP, 2 * ARC)
+}
+
+function line(d: string): string {
+  return `<path d="${d}"/>`
+}
+
+function render(expr: Expr, x: number, y: number, links: Map<string, string>): string {
+  const size = measure(expr)
+
+  switch (expr.type) {
+    case "terminal":
+    case "nonterminal": {
+      const isTerminal = expr.type === "terminal"
+      const label = escapeHtml(isTerminal ? expr.text : expr.name)
+      const box =
+        `<rect x="${x}" y="${y - BOX_HEIGHT / 2}" width="${size.width}" height="${BOX_HEIGHT}"` +
+        ` rx="${isTerminal ? BOX_HEIGHT / 2 : 0}"/>` +
+        `<text x="${x + size.width / 2}" y="${y + 4}">${label}</text>`
+      if (isTerminal) return `<g class="terminal">${box}</g>`
+
+      const href = links.get(expr.name)
+      return href
+        ? `<a class="nonterminal" href="${href}">${box}</a>`
+        : `<g class="nonterminal unresolved">${box}</g>`
+    }
+    case "skip":
+      return ""
+    case "sequence": {
+      let out = ""
+      let cursor = x
+      expr.items.forEach((item, i) => {
+        if (i > 0) {
+          out += line(`M${cursor} ${y}h${GAP}`)
+          cursor += GAP
+        }
+        out += render(item, cursor, y, links)
+        cursor += measure(item).width
+      })
+      return out
+    }
+    case "choice": {
+      const sizes = expr.options.map(measure)
+      const offsets = branchOffsets(sizes)
+      const inner = size.width - 4 * ARC
+      let out = line(`M${x} ${y}h${2 * ARC}`)
+      out += line(`M${x + 2 * ARC + sizes[0].width} ${y}h${inner - sizes[0].width + 2 * ARC}`)
+      out += render(expr.options[0], x + 2 * ARC, y, links)
+
+      expr.options.slice(1).forEach((option, i) => {
+        const offset = offsets[i + 1]
+        const width = sizes[i + 1].width
+        out += line(
+          `M${x} ${y}q${ARC} 0 ${ARC} ${ARC}v${offset - 2 * ARC}q0 ${ARC} ${ARC} ${ARC}`,
+        )
+        out += render(option, x + 2 * ARC, y + offset, links)
+        out += line(
+          `M${x + 2 * ARC + width} ${y + offset}h${inner - width}` +
+            `q${ARC} 0 ${ARC} ${-ARC}v${-(offset - 2 * ARC)}q0 ${-ARC} ${ARC} ${-ARC}`,
+        )
+      })
+      return out
+    }
+    case "repeat": {
+      const itemSize = measure(expr.item)
+      const loop = loopOffset(itemSize)
+      const right = x + ARC + itemSize.width
+      return (
+        line(`M${x} ${y}h${ARC}`) +
+        render(expr.item, x + ARC, y, links) +
+        line(`M${right} ${y}h${ARC}`) +
+        line(
+          `M${right} ${y}q${ARC} 0 ${ARC} ${ARC}v${loop - 2 * ARC}q0 ${ARC} ${-ARC} ${ARC}` +
+            `h${-itemSize.width}q${-ARC} 0 ${-ARC} ${-ARC}v${-(loop - 2 * ARC)}q0 ${-ARC} ${ARC} ${-ARC}`,
+        )
+      )
+    }
+    default:
+      throw new Error(`Unexpected ${expr.type} after normalization`)
+  }
+}
+
+function renderDiagram(expr: Expr, links: Map<string, string>): string {
+  const diagram = normalize(expr)
+  const size = measure(diagram)
+  const width = size.width + 2 * MARGIN + 2 * GAP
+  const height = size.up + size.down + 2 * MARGIN
+  const y = MARGIN + size.up
+  const end = MARGIN + GAP + size.width
+
+  return (
+    `<svg class="railroad-diagram" xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    line(`M${MARGIN} ${y - 8}v16M${MARGIN} ${y}h${GAP}`) +
+    render(diagram, MARGIN + GAP, y, links) +
+    line(`M${end} ${y}h${GAP}M${end + GAP} ${y - 8}v16`) +
+    `</svg>`
+  )
+}
+
+function productionId(prefix: string, name: string): string {
+  return prefix + name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+}
+
+/**
+ * Custom transformer that renders ```ebnf code blocks as inline SVG railroad diagrams at build time
+ * Every production gets its own anchor, nonterminals link to productions defined anywhere on the page,
+ * and the raw EBNF stays available (and copyable) behind a <details> toggle
+ */
+export const RailroadDiagrams: QuartzTransformerPlugin<Partial<Options>> = (userOpts) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+
+  return {
+    name: "RailroadDiagrams",
+    markdownPlugins() {
+      return [
+        () => (tree: MdRoot, file) => {
+          const blocks: { node: Code; productions: Production[] | Error }[] = []
+          visit(tree, "code", (node: Code) => {
+            if (node.lang !== opts.lang) return
+            try {
+              blocks.push({ node, productions: parseEbnf(node.value) })
+            } catch (err) {
+              if (!(err instanceof EbnfSyntaxError)) throw err
+              console.warn(`Could not parse EBNF block in ${file.data.filePath}: ${err.message}`)
+              blocks.push({ node, productions: err })
+            }
+          })
+          if (blocks.length === 0) return
+
+          // Links resolve across all blocks on the page, so productions can be split up by section
+          const links = new Map<string, string>()
+          for (const { productions } of blocks) {
+            if (productions instanceof Error) continue
+            for (const { name } of productions) {
+              links.set(name, `#${productionId(opts.idPrefix, name)}`)
+            }
+          }
+
+          const replacements = new Map<Code, MdContent[]>()
+          for (const { node, productions } of blocks) {
+            const diagrams =
+              productions instanceof Error
+                ? `<p class="railroad-error">${escapeHtml(productions.message)}</p>`
+                : productions
+                    .map(({ name, expr }) => {
+                      const id = productionId(opts.idPrefix, name)
+                      return (
+                        `<div class="railroad-production" id="${id}">` +
+                        `<a class="railroad-name" href="#${id}">${escapeHtml(name)}</a>` +
+                        renderDiagram(expr, links) +
+                        `</div>`
+                      )
+                    })
+                    .join("")
+
+            replacements.set(node, [
+              { type: "html", value: `<div class="railroad">${diagrams}</div>` },
+              { type: "html", value: `<details class="railroad-source"><summary>EBNF</summary>` },
+              { type: "code", lang: opts.sourceLang, value: node.value },
+              { type: "html", value: `</details>` },
+            ])
+          }
+
+          visit(tree, "code", (node: Code, index, parent) => {
+            const replacement = replacements.get(node)
+            if (!replacement || !parent || index === undefined) return
+            parent.children.splice(index, 1, ...(replacement as typeof parent.children))
+            return index + replacement.length
+          })
+        },
+      ]
+    },
+  }
+}
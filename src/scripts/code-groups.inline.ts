@@ -0,0 +1,63 @@
+// Selected tab label per code group name, shared by every page with that group
+function loadSavedTabs(): Record<string, string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem("codeGroupTabs") ?? "{}")
+    return saved && typeof saved === "object" ? saved : {}
+  } catch {
+    // Corrupt entry, e.g. edited by hand: start over rather than break every page
+    return {}
+  }
+}
+
+let savedTabs = loadSavedTabs()
+
+function selectTab(group: HTMLElement, label: string) {
+  const tabs = group.querySelectorAll(".code-group-tab") as NodeListOf<HTMLElement>
+  const panels = group.querySelectorAll(".code-group-panel") as NodeListOf<HTMLElement>
+  if (!Array.from(tabs).some((tab) => tab.dataset.label === label)) return
+
+  for (const tab of Array.from(tabs)) {
+    const active = tab.dataset.label === label
+    tab.classList.toggle("active", active)
+    tab.setAttribute("aria-selected", active ? "true" : "false")
+  }
+  for (const panel of Array.from(panels)) {
+    panel.classList.toggle("active", panel.dataset.label === label)
+  }
+}
+
+function onTabClick(this: HTMLElement) {
+  const group = this.closest(".code-group") as HTMLElement | null
+  const name = group?.dataset.group
+  const label = this.dataset.label
+  if (!group || !name || !label) return
+
+  // Keep every group with the same name on this page in sync
+  const sameGroups = document.querySelectorAll(
+    `.code-group[data-group="${CSS.escape(name)}"]`,
+  ) as NodeListOf<HTMLElement>
+  for (const other of Array.from(sameGroups)) {
+    selectTab(other, label)
+  }
+
+  savedTabs[name] = label
+  localStorage.setItem("codeGroupTabs", JSON.stringify(savedTabs))
+}
+
+document.addEventListener("nav", () => {
+  savedTabs = loadSavedTabs()
+
+  const groups = document.querySelectorAll(".code-group") as NodeListOf<HTMLElement>
+  for (const group of Array.from(groups)) {
+    const saved = savedTabs[group.dataset.group ?? ""]
+    if (saved) {
+      selectTab(group, saved)
+    }
+
+    const tabs = group.querySelectorAll(".code-group-tab") as NodeListOf<HTMLElement>
+    for (const tab of Array.from(tabs)) {
+      tab.addEventListener("click", onTabClick)
+      window.addCleanup(() => tab.removeEventListener("click", onTabClick))
+    }
+  }
+})
@@ -1,18 +1,28 @@
 import { FileTrieNode } from "../quartz/util/fileTrie"
 import { FullSlug, resolveRelative, simplifySlug } from "../quartz/util/path"
-import { ContentDetails } from "../quartz/plugins/emitters/contentIndex"
+import {
+  buildHeaderTree,
+  ExplorerData,
+  explorerData,
+  explorerSort,
+  explorerToc,
+  HeaderNode,
+} from "../explorer-tree"
+import { loadExplorerIndex } from "./explorer-index"
 
 type MaybeHTMLElement = HTMLElement | undefined
-
+type ExplorerNode = FileTrieNode<ExplorerData>
 
 interface ParsedOptions {
   folderClickBehavior: "collapse" | "link"
   folderDefaultState: "collapsed" | "open"
   useSavedState: boolean
-  sortFn: (a: FileTrieNode, b: FileTrieNode) => number
-  filterFn: (node: FileTrieNode) => boolean
-  mapFn: (node: FileTrieNode) => void
-  order: "sort" | "filter" | "map"[]
+  batchSize: number
+  tocDepth: number
+  sortFn: (a: ExplorerNode, b: ExplorerNode) => number
+  filterFn: (node: ExplorerNode) => boolean
+  mapFn: (node: ExplorerNode) => void
+  order: ("sort" | "filter" | "map")[]
 }
 
 type FolderState = {
@@ -20,8 +30,20 @@ type FolderState = {
   collapsed: boolean
 }
 
+// Saved state of every folder, including folders that have not been rendered yet
 let currentExplorerState: Array<FolderState>
-let frontmatterCache: Map<string, any> = new Map()
+let currentSlug: FullSlug
+let trieCache: { hash: string; trie: Promise<ExplorerNode> } | undefined
+const explorerOptions = new WeakMap<HTMLElement, ParsedOptions>()
+const rendering = new WeakMap<HTMLElement, Promise<void>>()
+// Windowed lists: the height each row had when it was last rendered, by child index
+const rowHeights = new WeakMap<HTMLElement, number[]>()
+// Heights of rows that have not been rendered, from the trie and the saved folder state
+let estimatedHeights = new Map<ExplorerNode, number>()
+let estimatedRowHeight = 0
+const windowUpdates = new WeakMap<HTMLElement, number>()
+// Header folders the scroll-spy opened, as opposed to ones the reader opened
+let autoOpened = new Set<HTMLElement>()
 
 function toggleExplorer(this: HTMLElement) {
   const nearestExplorer = this.closest(".explorer") as HTMLElement
@@ -37,75 +59,143 @@ function toggleExplorer(this: HTMLElement) {
   } else {
     document.documentElement.classList.remove("mobile-no-scroll")
   }
+
+  // Windowed lists are left alone while the explorer is hidden
+  const explorerUl = nearestExplorer.querySelector(".explorer-ul") as HTMLElement | null
+  if (explorerUl) scheduleWindowUpdate(nearestExplorer, explorerUl)
 }
 
-function toggleFolder(evt: MouseEvent) {
-  evt.stopPropagation()
+// Delegated from the explorer list, so rows built later need no listeners of their own
+function toggleFolder(this: HTMLElement, evt: MouseEvent) {
   const target = evt.target as MaybeHTMLElement
-  if (!target) return
+  const toggle = target?.closest(".folder-icon, .folder-button") as MaybeHTMLElement
+  if (!toggle) return
+  evt.stopPropagation()
 
-  const isSvg = target.nodeName === "svg"
+  const folderContainer = toggle.closest(".folder-container") as MaybeHTMLElement
+  const explorer = this.closest(".explorer") as HTMLElement | null
+  if (!folderContainer || !explorer) return
+  const isOpen = folderContainer.parentElement?.getAttribute("aria-expanded") === "true"
+  setFolderOpen(explorer, folderContainer, !isOpen)
+}
 
-  const folderContainer = (
-    isSvg
-      ? target.parentElement
-      : target.parentElement?.parentElement
-  ) as MaybeHTMLElement
-  if (!folderContainer) return
+// Open or close a folder, file or header row, building its children on first open and saving
+// the state of physical folders (`data-folderpath`) and header folders (`data-headerpath`)
+function setFolderOpen(explorer: HTMLElement, folderContainer: HTMLElement, open: boolean) {
   const childFolderContainer = folderContainer.nextElementSibling as MaybeHTMLElement
   if (!childFolderContainer) return
 
-  childFolderContainer.classList.toggle("open")
-
-  const isCollapsed = !childFolderContainer.classList.contains("open")
-  setFolderState(childFolderContainer, isCollapsed)
+  setFolderState(childFolderContainer, !open)
+  // The reader's choice wins over the scroll-spy's
+  autoOpened.delete(childFolderContainer)
+  const ul = childFolderContainer.querySelector(":scope > ul") as HTMLElement | null
+  if (open && ul?.dataset.rendered === "0") {
+    renderLazyList(explorer, ul)
+  }
+  const explorerUl = folderContainer.closest(".explorer-ul") as HTMLElement | null
+  if (explorerUl) scheduleWindowUpdate(explorer, explorerUl)
+
+  // Rows in filter results have no path and are not saved
+  const path = folderContainer.dataset.folderpath ?? folderContainer.dataset.headerpath
+  if (!path) return
+  updateFolderState(path, !open)
+  persistFolderState()
+}
 
-  const currentFolderState = currentExplorerState.find(
-    (item) => item.path === folderContainer.dataset.folderpath,
-  )
+function updateFolderState(path: string, collapsed: boolean) {
+  estimatedHeights.clear()
+  const currentFolderState = currentExplorerState.find((item) => item.path === path)
   if (currentFolderState) {
-    currentFolderState.collapsed = isCollapsed
+    currentFolderState.collapsed = collapsed
   } else {
-    currentExplorerState.push({
-      path: folderContainer.dataset.folderpath as FullSlug,
-      collapsed: isCollapsed,
-    })
+    currentExplorerState.push({ path, collapsed })
   }
+}
 
+function persistFolderState() {
   const stringifiedFileTree = JSON.stringify(currentExplorerState)
   localStorage.setItem("fileTree", stringifiedFileTree)
 }
 
-// Build hierarchical header tree from flat TOC list
-function buildHeaderTree(toc: any[]): any[] {
-  const stack: any[] = []
-  const result: any[] = []
+function savedFolderState(path: string): boolean | undefined {
+  return currentExplorerState.find((item) => item.path === path)?.collapsed
+}
 
-  for (const entry of toc) {
-    const headerNode = {
-      ...entry,
-      children: []
-    }
+// `defaultCollapsed` is the folder's own `collapsed` frontmatter, if it has one
+function isFolderCollapsed(path: string, opts: ParsedOptions, defaultCollapsed: boolean | null): boolean {
+  return savedFolderState(path) ?? defaultCollapsed ?? opts.folderDefaultState === "collapsed"
+}
 
-    // Find the appropriate parent based on depth
-    while (stack.length > 0 && stack[stack.length - 1].depth >= entry.depth) {
-      stack.pop()
-    }
+function isPrefixOfCurrentSlug(folderPath: FullSlug): boolean {
+  const simpleFolderPath = simplifySlug(folderPath)
+  return currentSlug === simpleFolderPath || currentSlug.startsWith(simpleFolderPath + "/")
+}
 
-    if (stack.length === 0) {
-      result.push(headerNode)
-    } else {
-      stack[stack.length - 1].children.push(headerNode)
+function parseOptions(explorer: HTMLElement): ParsedOptions {
+  const cached = explorerOptions.get(explorer)
+  if (cached) return cached
+
+  const dataFns = JSON.parse(explorer.dataset.dataFns || "{}")
+  const opts: ParsedOptions = {
+    folderClickBehavior: (explorer.dataset.behavior || "collapse") as "collapse" | "link",
+    folderDefaultState: (explorer.dataset.collapsed || "collapsed") as "collapsed" | "open",
+    useSavedState: explorer.dataset.savestate === "true",
+    batchSize: parseInt(explorer.dataset.batchSize || "100"),
+    tocDepth: parseInt(explorer.dataset.tocDepth || "6"),
+    order: dataFns.order || ["filter", "map", "sort"],
+    sortFn: dataFns.sortFn ? new Function("return " + dataFns.sortFn)() : explorerSort,
+    filterFn: new Function("return " + (dataFns.filterFn || "undefined"))(),
+    mapFn: new Function("return " + (dataFns.mapFn || "undefined"))(),
+  }
+  explorerOptions.set(explorer, opts)
+  return opts
+}
+
+// The same trie CustomExplorer renders from, rebuilt from the cached frontmatter index
+function loadTrie(explorer: HTMLElement, opts: ParsedOptions): Promise<ExplorerNode> {
+  const hash = explorer.dataset.indexHash ?? ""
+  if (trieCache?.hash === hash) return trieCache.trie
+
+  const trie = loadExplorerIndex(hash).then((index) => {
+    const entries = Object.entries(index).map(([slug, data]): [FullSlug, ExplorerData] => [
+      slug as FullSlug,
+      // Page settings are already applied to the TOC by FrontmatterIndex, the site-wide depth is not
+      explorerData(slug, "", data, explorerToc(data.toc ?? [], data, [], opts.tocDepth)),
+    ])
+    const trie = FileTrieNode.fromEntries(entries)
+
+    // Apply functions in order
+    for (const fn of opts.order) {
+      switch (fn) {
+        case "filter":
+          if (opts.filterFn) trie.filter(opts.filterFn)
+          break
+        case "map":
+          if (opts.mapFn) trie.map(opts.mapFn)
+          break
+        case "sort":
+          if (opts.sortFn) trie.sort(opts.sortFn)
+          break
+      }
     }
+    return trie
+  })
+  trieCache = { hash, trie }
+  return trie
+}
 
-    stack.push(headerNode)
+function findTrieNode(trie: ExplorerNode, slug: FullSlug): ExplorerNode | undefined {
+  let node: ExplorerNode | undefined = trie
+  for (const segment of simplifySlug(slug).split("/")) {
+    if (segment.length === 0) continue
+    node = node?.children.find((child) => child.slugSegment === segment)
   }
-
-  return result
+  return node
 }
 
 // Create header tree structure with folders for parents and links for leaves
-function createHeaderStructure(currentSlug: FullSlug, node: FileTrieNode, headerNode: any): HTMLLIElement {
+// `path` is the page slug; header folders are keyed by `path#header-slug` in the saved state
+function createHeaderStructure(href: string, path: string, headerNode: HeaderNode): HTMLLIElement {
   const hasChildren = headerNode.children && headerNode.children.length > 0
 
   if (hasChildren) {
@@ -121,20 +211,21 @@ function createHeaderStructure(currentSlug: FullSlug, node: FileTrieNode, header
     // Replace folder button with header link but keep folder structure
     const button = titleContainer.querySelector(".folder-button") as HTMLElement
     const a = document.createElement("a")
-    a.href = resolveRelative(currentSlug, node.slug) + `#${headerNode.slug}`
+    a.href = `${href}#${headerNode.slug}`
+    a.tabIndex = -1
     a.textContent = headerNode.text
     a.classList.add("header-link", `header-depth-${headerNode.depth}`, "header-folder")
 
     button.replaceWith(a)
 
-    // Add children recursively
+    // Add children recursively; headers start collapsed unless saved open
     for (const child of headerNode.children) {
-      const childLi = createHeaderStructure(currentSlug, node, child)
-      ul.appendChild(childLi)
+      ul.appendChild(createHeaderStructure(href, path, child))
     }
 
-    // Headers start collapsed by default
-    // folderOuter.classList.add("open") - leave commented for collapsed default
+    const headerPath = `${path}#${headerNode.slug}`
+    folderContainer.dataset.headerpath = headerPath
+    setFolderState(folderOuter, savedFolderState(headerPath) ?? true)
 
     return li
   } else {
@@ -144,7 +235,7 @@ function createHeaderStructure(currentSlug: FullSlug, node: FileTrieNode, header
     const li = clone.querySelector("li") as HTMLLIElement
     const a = li.querySelector("a") as HTMLAnchorElement
 
-    a.href = resolveRelative(currentSlug, node.slug) + `#${headerNode.slug}`
+    a.href = `${href}#${headerNode.slug}`
     a.textContent = headerNode.text
     a.classList.add("header-link", `header-depth-${headerNode.depth}`)
 
@@ -152,50 +243,38 @@ function createHeaderStructure(currentSlug: FullSlug, node: FileTrieNode, header
   }
 }
 
-function createFileNode(currentSlug: FullSlug, node: FileTrieNode): HTMLLIElement {
-  // Check if we have TOC data for this file
-  const slug = node.slug
-  const frontmatter = frontmatterCache.get(slug)
-  const toc = frontmatter?.toc
+function createFileNode(explorer: HTMLElement, node: ExplorerNode): HTMLLIElement {
+  const toc = node.data?.toc ?? []
 
-  // If file has TOC, treat it like a folder for consistent styling
-  if (toc && toc.length > 0) {
+  // If file has TOC, treat it like a folder for consistent styling; headers are built on first expand
+  if (toc.length > 0) {
     const template = document.getElementById("template-folder") as HTMLTemplateElement
     const clone = template.content.cloneNode(true) as DocumentFragment
     const li = clone.querySelector("li") as HTMLLIElement
     const folderContainer = li.querySelector(".folder-container") as HTMLElement
     const titleContainer = folderContainer.querySelector("div") as HTMLElement
-    const folderOuter = li.querySelector(".folder-outer") as HTMLElement
-    const ul = folderOuter.querySelector("ul") as HTMLUListElement
+    const ul = li.querySelector(".folder-outer > ul") as HTMLUListElement
 
     // Replace folder button with file link
     const button = titleContainer.querySelector(".folder-button") as HTMLElement
     const a = document.createElement("a")
     a.href = resolveRelative(currentSlug, node.slug)
+    a.tabIndex = -1
     a.dataset.for = node.slug
     a.className = "file-title physical-file"
     a.textContent = node.displayName
-
     if (currentSlug === node.slug) {
       a.classList.add("active")
     }
-
     button.replaceWith(a)
 
-    // Build hierarchical header tree
-    const headerTree = buildHeaderTree(toc)
-
-    // Create nested header structure
-    for (const headerNode of headerTree) {
-      const headerLi = createHeaderStructure(currentSlug, node, headerNode)
-      ul.appendChild(headerLi)
+    folderContainer.dataset.headerpath = node.slug
+    ul.dataset.lazy = node.slug
+    ul.dataset.rendered = "0"
+    if (isOutlineOpen(node)) {
+      setFolderState(ul.parentElement as HTMLElement, false)
+      renderLazyList(explorer, ul)
     }
-
-    // If this is the current page, expand to show TOC
-    if (currentSlug === node.slug) {
-      folderOuter.classList.add("open")
-    }
-
     return li
   } else {
     // Standard file without TOC - use simple file template
@@ -216,11 +295,7 @@ function createFileNode(currentSlug: FullSlug, node: FileTrieNode): HTMLLIElemen
   }
 }
 
-function createFolderNode(
-  currentSlug: FullSlug,
-  node: FileTrieNode,
-  opts: ParsedOptions,
-): HTMLLIElement {
+function createFolderNode(explorer: HTMLElement, node: ExplorerNode, opts: ParsedOptions): HTMLLIElement {
   const template = document.getElementById("template-folder") as HTMLTemplateElement
   const clone = template.content.cloneNode(true) as DocumentFragment
   const li = clone.querySelector("li") as HTMLLIElement
@@ -230,220 +305,773 @@ function createFolderNode(
   const ul = folderOuter.querySelector("ul") as HTMLUListElement
 
   const folderPath = node.slug
+  const collapsed = node.data?.collapsed ?? null
   folderContainer.dataset.folderpath = folderPath
+  if (collapsed !== null) folderContainer.dataset.collapsed = String(collapsed)
 
+  let title: HTMLElement
   if (opts.folderClickBehavior === "link") {
     const button = titleContainer.querySelector(".folder-button") as HTMLElement
-    const a = document.createElement("a")
-    a.href = resolveRelative(currentSlug, folderPath)
-    a.dataset.for = folderPath
-    a.className = "folder-title physical-folder"
-    a.textContent = node.displayName
-    button.replaceWith(a)
+    title = document.createElement("a")
+    ;(title as HTMLAnchorElement).href = resolveRelative(currentSlug, folderPath)
+    title.tabIndex = -1
+    title.dataset.for = folderPath
+    title.className = "folder-title physical-folder"
+    button.replaceWith(title)
   } else {
-    const span = titleContainer.querySelector(".folder-title") as HTMLElement
-    span.textContent = node.displayName
-    span.classList.add("physical-folder")
+    title = titleContainer.querySelector(".folder-title") as HTMLElement
+    title.classList.add("physical-folder")
+  }
+  title.textContent = node.displayName
+  if (node.data?.icon) {
+    const icon = document.createElement("span")
+    icon.className = "explorer-icon"
+    icon.setAttribute("aria-hidden", "true")
+    icon.textContent = node.data.icon
+    title.prepend(icon)
   }
 
-  const isCollapsed =
-    currentExplorerState.find((item) => item.path === folderPath)?.collapsed ??
-    opts.folderDefaultState === "collapsed"
+  // Children are built when the folder is first opened
+  ul.dataset.lazy = folderPath
+  ul.dataset.rendered = "0"
+  if (isFolderOpen(node, opts)) {
+    setFolderState(folderOuter, false)
+    renderLazyList(explorer, ul)
+  }
 
-  const simpleFolderPath = simplifySlug(folderPath)
-  const folderIsPrefixOfCurrentSlug =
-    simpleFolderPath === currentSlug.slice(0, simpleFolderPath.length)
+  return li
+}
+
+function createChildNode(explorer: HTMLElement, node: ExplorerNode, opts: ParsedOptions): HTMLLIElement {
+  return node.isFolder ? createFolderNode(explorer, node, opts) : createFileNode(explorer, node)
+}
+
+// Whether a folder row is built open: from its saved state, and always on the way to the current page
+function isFolderOpen(node: ExplorerNode, opts: ParsedOptions): boolean {
+  return !isFolderCollapsed(node.slug, opts, node.data?.collapsed ?? null) || isPrefixOfCurrentSlug(node.slug)
+}
+
+// Whether a page row's outline is built open: when saved open, and always for the current page
+function isOutlineOpen(node: ExplorerNode): boolean {
+  return (node.data?.toc ?? []).length > 0 && (savedFolderState(node.slug) === false || node.slug === currentSlug)
+}
+
+/**
+ * Build a lazy list (`data-lazy` holds the folder or file slug) when it is first opened. Files
+ * render all of their headers. Folders with up to `batchSize` children render them all, longer
+ * ones become windowed lists that updateWindows fills in.
+ */
+function renderLazyList(explorer: HTMLElement, ul: HTMLElement): Promise<void> {
+  const inFlight = rendering.get(ul)
+  if (inFlight) return inFlight
+
+  const opts = parseOptions(explorer)
+  const done = loadTrie(explorer, opts)
+    .then((trie) => {
+      const slug = ul.dataset.lazy as FullSlug | undefined
+      const node = slug ? findTrieNode(trie, slug) : undefined
+      if (!slug || !node) return
+      delete ul.dataset.lazy
+      delete ul.dataset.rendered
+
+      if (!node.isFolder) {
+        const href = resolveRelative(currentSlug, node.slug)
+        for (const headerNode of buildHeaderTree(node.data?.toc ?? [])) {
+          ul.appendChild(createHeaderStructure(href, node.slug, headerNode))
+        }
+        return
+      }
+
+      if (node.children.length <= opts.batchSize) {
+        for (const child of node.children) {
+          ul.appendChild(createChildNode(explorer, child, opts))
+        }
+        return
+      }
+
+      ul.dataset.window = slug
+      ul.dataset.start = "0"
+      ul.dataset.end = "0"
+      ul.append(createSpacer(), createSpacer())
+      const explorerUl = ul.closest(".explorer-ul") as HTMLElement | null
+      if (explorerUl) scheduleWindowUpdate(explorer, explorerUl)
+    })
+    .catch((error) => console.warn("Could not build explorer rows:", error))
+    .finally(() => rendering.delete(ul))
+
+  rendering.set(ul, done)
+  return done
+}
 
-  if (!isCollapsed || folderIsPrefixOfCurrentSlug) {
-    folderOuter.classList.add("open")
+// Windowing: a windowed list (`data-window` holds the folder slug) only has the rows from
+// `data-start` to `data-end`, between two spacers as tall as the rows they stand in for
+
+function createSpacer(): HTMLLIElement {
+  const spacer = document.createElement("li")
+  spacer.className = "explorer-spacer"
+  spacer.setAttribute("role", "none")
+  return spacer
+}
+
+// Height of one closed row, measured from the first one that is laid out
+function measureRowHeight(explorerUl: HTMLElement): number {
+  const rows = explorerUl.querySelectorAll('li[role="treeitem"]:not([aria-expanded="true"])')
+  for (const row of Array.from(rows) as HTMLElement[]) {
+    if (row.offsetHeight > 0) return row.offsetHeight
   }
+  return estimatedRowHeight || 24
+}
 
-  for (const child of node.children) {
-    const childNode = child.isFolder
-      ? createFolderNode(currentSlug, child, opts)
-      : createFileNode(currentSlug, child)
-    ul.appendChild(childNode)
+function estimateHeaders(headers: HeaderNode[], path: string): number {
+  let height = 0
+  for (const header of headers) {
+    height += estimatedRowHeight
+    if (header.children.length > 0 && savedFolderState(`${path}#${header.slug}`) === false) {
+      height += estimateHeaders(header.children, path)
+    }
   }
+  return height
+}
 
-  return li
+// Height a row would have if it were built now, counting the rows of open folders and outlines in it
+function estimateHeight(node: ExplorerNode, opts: ParsedOptions): number {
+  let height = estimatedHeights.get(node)
+  if (height !== undefined) return height
+
+  height = estimatedRowHeight
+  if (node.isFolder && isFolderOpen(node, opts)) {
+    for (const child of node.children) height += estimateHeight(child, opts)
+  } else if (!node.isFolder && isOutlineOpen(node)) {
+    height += estimateHeaders(buildHeaderTree(node.data?.toc ?? []), node.slug)
+  }
+  estimatedHeights.set(node, height)
+  return height
 }
 
-// Enhanced sort function that checks frontmatter for sortorder
-function createCustomSortFn() {
-  return (a: FileTrieNode, b: FileTrieNode) => {
-    const getSortOrder = (node: FileTrieNode) => {
-      if (node.isFolder) return null
+/**
+ * Render the rows of a windowed list that overlap `view` (viewport coordinates), recycling the
+ * others into its spacers. The row holding focus is kept so keyboard navigation doesn't lose it.
+ * Returns whether rows were added or removed.
+ */
+function updateWindow(
+  explorer: HTMLElement,
+  ul: HTMLElement,
+  node: ExplorerNode,
+  view: { top: number; bottom: number },
+): boolean {
+  const opts = parseOptions(explorer)
+  const [topSpacer, bottomSpacer] = Array.from(ul.querySelectorAll(":scope > .explorer-spacer")) as HTMLElement[]
+  if (!topSpacer || !bottomSpacer) return false
+
+  const start = parseInt(ul.dataset.start ?? "0")
+  const end = parseInt(ul.dataset.end ?? "0")
+  const rows = Array.from(ul.children).filter((row) => !row.classList.contains("explorer-spacer")) as HTMLElement[]
+  const heights = rowHeights.get(ul) ?? []
+  rowHeights.set(ul, heights)
+  rows.forEach((row, i) => (heights[start + i] = row.offsetHeight))
+  const height = (i: number) => heights[i] ?? estimateHeight(node.children[i], opts)
+
+  const count = node.children.length
+  let first = -1
+  let last = -1
+  let y = topSpacer.getBoundingClientRect().top
+  for (let i = 0; i < count && y < view.bottom; i++) {
+    const rowHeight = height(i)
+    if (y + rowHeight > view.top) {
+      if (first === -1) first = i
+      last = i + 1
+    }
+    y += rowHeight
+  }
+  if (first === -1) {
+    // The whole list is below or above the view
+    first = last = y >= view.bottom ? 0 : count
+  }
 
-      // Check if we have cached frontmatter data
-      const slug = node.slug
-      const frontmatter = frontmatterCache.get(slug)
-      return frontmatter?.sortorder ?? null
+  const focused = rows.findIndex((row) => row.contains(document.activeElement))
+  if (focused !== -1) {
+    first = Math.min(first, start + focused)
+    last = Math.max(last, start + focused + 1)
+  }
+
+  const changed = first !== start || last !== end
+  if (changed) {
+    rows.forEach((row, i) => {
+      if (start + i < first || start + i >= last) row.remove()
+    })
+
+    // Rows still rendered keep their place; new ones go before and after them
+    const keptFrom = Math.max(start, first)
+    const keptTo = Math.min(end, last)
+    const firstKept = topSpacer.nextElementSibling
+    for (let i = first; i < last; i++) {
+      if (i >= keptFrom && i < keptTo) continue
+      const before = keptFrom < keptTo && i < keptFrom ? firstKept : bottomSpacer
+      ul.insertBefore(createChildNode(explorer, node.children[i], opts), before)
     }
+    ul.dataset.start = first.toString()
+    ul.dataset.end = last.toString()
+  }
 
-    const aSortOrder = getSortOrder(a)
-    const bSortOrder = getSortOrder(b)
-
-    // Handle folder vs file sorting first
-    if ((!a.isFolder && !b.isFolder) || (a.isFolder && b.isFolder)) {
-      // Both are files or both are folders
-      if (aSortOrder !== null && bSortOrder !== null) {
-        // Both have sortorder
-        return aSortOrder - bSortOrder
-      } else if (aSortOrder !== null && bSortOrder === null) {
-        // Only a has sortorder, a comes first
-        return -1
-      } else if (aSortOrder === null && bSortOrder !== null) {
-        // Only b has sortorder, b comes first
-        return 1
-      } else {
-        // Neither has sortorder, sort alphabetically
-        return a.displayName.localeCompare(b.displayName, undefined, {
-          numeric: true,
-          sensitivity: "base",
-        })
-      }
+  let above = 0
+  let below = 0
+  for (let i = 0; i < first; i++) above += height(i)
+  for (let i = last; i < count; i++) below += height(i)
+  topSpacer.style.height = `${above}px`
+  bottomSpacer.style.height = `${below}px`
+  return changed
+}
+
+/**
+ * Bring every open windowed list up to date with the explorer's scroll position: the rows within
+ * a screen above and below the visible part are rendered. With `around`, the rows around that
+ * element are rendered instead, so it can be scrolled to where it will stay.
+ */
+async function updateWindows(explorer: HTMLElement, explorerUl: HTMLElement, around?: Element) {
+  const trie = await loadTrie(explorer, parseOptions(explorer))
+  // Nothing is laid out while the explorer is hidden, e.g. closed on mobile
+  if (explorerUl.clientHeight === 0) return
+
+  const rowHeight = measureRowHeight(explorerUl)
+  if (rowHeight !== estimatedRowHeight) {
+    estimatedRowHeight = rowHeight
+    estimatedHeights.clear()
+  }
+
+  const rect = explorerUl.getBoundingClientRect()
+  const center = around?.getBoundingClientRect() ?? rect
+  const view = { top: center.top - rect.height, bottom: center.bottom + rect.height }
+
+  // Rows built in one pass may hold windowed lists of their own, which the next pass fills in
+  let changed = true
+  for (let pass = 0; changed && pass < 10; pass++) {
+    changed = false
+    for (const ul of Array.from(explorerUl.querySelectorAll("ul[data-window]")) as HTMLElement[]) {
+      if (ul.closest(".folder-outer:not(.open)")) continue
+      const node = findTrieNode(trie, ul.dataset.window as FullSlug)
+      if (node && updateWindow(explorer, ul, node, view)) changed = true
     }
+  }
+  ensureTabStop(explorerUl)
+}
+
+function scheduleWindowUpdate(explorer: HTMLElement, explorerUl: HTMLElement) {
+  if (windowUpdates.has(explorerUl)) return
+  windowUpdates.set(
+    explorerUl,
+    requestAnimationFrame(() => {
+      windowUpdates.delete(explorerUl)
+      updateWindows(explorer, explorerUl)
+    }),
+  )
+}
+
+// The spacers make the list as tall as the whole tree, so the saved position exists before the
+// rows at it are rendered
+async function restoreScrollTop(explorer: HTMLElement, explorerUl: HTMLElement, scrollTop: number) {
+  await updateWindows(explorer, explorerUl)
+  explorerUl.scrollTop = scrollTop
+  await updateWindows(explorer, explorerUl)
+}
+
+// Filtering: the matching part of the whole trie replaces the normal rows while a query is entered
+
+interface FilteredNode {
+  kind: "folder" | "file" | "header"
+  label: string
+  indices: number[] | null
+  href: string
+  slug?: string
+  depth?: number
+  children: FilteredNode[]
+}
+
+const stashedRows = new WeakMap<HTMLElement, { rows: DocumentFragment; scrollTop: number }>()
+const latestQuery = new WeakMap<HTMLElement, string>()
+
+// Positions of `query` in `text`: a substring match if there is one, otherwise the first
+// in-order subsequence, so "inttypes" matches "Integer Types"
+function fuzzyMatch(text: string, query: string): number[] | null {
+  const lower = text.toLowerCase()
+  const start = lower.indexOf(query)
+  if (start !== -1) {
+    return Array.from({ length: query.length }, (_, i) => start + i)
+  }
+
+  const indices: number[] = []
+  let from = 0
+  for (const char of query) {
+    const i = lower.indexOf(char, from)
+    if (i === -1) return null
+    indices.push(i)
+    from = i + 1
+  }
+  return indices
+}
+
+function filterHeaders(headers: HeaderNode[], href: string, query: string): FilteredNode[] {
+  const result: FilteredNode[] = []
+  for (const header of headers) {
+    const indices = fuzzyMatch(header.text, query)
+    const children = filterHeaders(header.children, href, query)
+    if (indices || children.length > 0) {
+      result.push({
+        kind: "header",
+        label: header.text,
+        indices,
+        href: `${href}#${header.slug}`,
+        depth: header.depth,
+        children,
+      })
+    }
+  }
+  return result
+}
+
+function filterTrieNode(node: ExplorerNode, query: string): FilteredNode | null {
+  const indices = fuzzyMatch(node.displayName, query)
+  const href = resolveRelative(currentSlug, node.slug)
+
+  const children = node.isFolder
+    ? node.children
+        .map((child) => filterTrieNode(child, query))
+        .filter((child): child is FilteredNode => child !== null)
+    : filterHeaders(buildHeaderTree(node.data?.toc ?? []), href, query)
+  if (!indices && children.length === 0) return null
+
+  return {
+    kind: node.isFolder ? "folder" : "file",
+    label: node.displayName,
+    indices,
+    href,
+    slug: node.slug,
+    children,
+  }
+}
 
-    // Handle mixed folder/file sorting
-    if (!a.isFolder && b.isFolder) {
-      return 1
+function highlightMatch(el: HTMLElement, text: string, indices: number[] | null) {
+  el.textContent = ""
+  const matched = new Set(indices ?? [])
+  let i = 0
+  while (i < text.length) {
+    const isMatch = matched.has(i)
+    let j = i
+    while (j < text.length && matched.has(j) === isMatch) j++
+
+    const part = text.slice(i, j)
+    if (isMatch) {
+      const mark = document.createElement("mark")
+      mark.className = "explorer-match"
+      mark.textContent = part
+      el.appendChild(mark)
     } else {
-      return -1
+      el.appendChild(document.createTextNode(part))
     }
+    i = j
+  }
+}
+
+function createFilteredNode(item: FilteredNode, opts: ParsedOptions): HTMLLIElement {
+  const link = document.createElement("a")
+  link.href = item.href
+  link.tabIndex = -1
+  highlightMatch(link, item.label, item.indices)
+  if (item.kind === "folder") {
+    link.className = "folder-title physical-folder"
+  } else if (item.kind === "file") {
+    link.className = "file-title physical-file"
+    link.dataset.for = item.slug
+    if (currentSlug === item.slug) link.classList.add("active")
+  } else {
+    link.className = `header-link header-depth-${item.depth}`
+  }
+
+  if (item.children.length === 0) {
+    const template = document.getElementById("template-file") as HTMLTemplateElement
+    const li = (template.content.cloneNode(true) as DocumentFragment).querySelector("li") as HTMLLIElement
+    li.querySelector("a")!.replaceWith(link)
+    return li
+  }
+
+  // Everything leading to a match is expanded
+  const template = document.getElementById("template-folder") as HTMLTemplateElement
+  const li = (template.content.cloneNode(true) as DocumentFragment).querySelector("li") as HTMLLIElement
+  const button = li.querySelector(".folder-button") as HTMLElement
+  if (item.kind === "folder" && opts.folderClickBehavior === "collapse") {
+    const span = button.querySelector(".folder-title") as HTMLElement
+    highlightMatch(span, item.label, item.indices)
+    span.classList.add("physical-folder")
+  } else {
+    if (item.kind === "header") link.classList.add("header-folder")
+    button.replaceWith(link)
   }
+
+  const folderOuter = li.querySelector(".folder-outer") as HTMLElement
+  setFolderState(folderOuter, false)
+  const ul = folderOuter.querySelector("ul") as HTMLUListElement
+  for (const child of item.children) {
+    ul.appendChild(createFilteredNode(child, opts))
+  }
+  return li
 }
 
-// Function to fetch frontmatter data for all pages
-async function fetchFrontmatterData() {
-  try {
-    // Fetch the content index which contains basic page data
-    const response = await fetch(`${window.location.origin}/static/contentIndex.json`)
-    if (!response.ok) {
-      console.warn("Could not fetch content index for sortorder data")
-      return
+async function applyFilter(explorer: HTMLElement, explorerUl: HTMLElement, value: string) {
+  const opts = parseOptions(explorer)
+  const query = value.toLowerCase().replace(/\s+/g, "")
+  const overflowEnd = explorerUl.querySelector(":scope > .overflow-end")
+  latestQuery.set(explorerUl, query)
+
+  // Put the normal rows aside on the first keystroke and back when the query is cleared
+  let stash = stashedRows.get(explorerUl)
+  if (query.length === 0) {
+    if (!stash) return
+    explorerUl.querySelectorAll(":scope > .explorer-filter-result").forEach((row) => row.remove())
+    explorerUl.insertBefore(stash.rows, overflowEnd)
+    explorerUl.scrollTop = stash.scrollTop
+    stashedRows.delete(explorerUl)
+    scheduleWindowUpdate(explorer, explorerUl)
+    ensureTabStop(explorerUl)
+    return
+  }
+
+  const trie = await loadTrie(explorer, opts)
+  // A later keystroke has taken over
+  if (latestQuery.get(explorerUl) !== query) return
+  stash = stashedRows.get(explorerUl)
+  if (!stash) {
+    stash = { rows: document.createDocumentFragment(), scrollTop: explorerUl.scrollTop }
+    for (const row of Array.from(explorerUl.children)) {
+      if (row !== overflowEnd) stash.rows.appendChild(row)
     }
+    stashedRows.set(explorerUl, stash)
+  }
 
-    await response.json()
+  explorerUl.querySelectorAll(":scope > .explorer-filter-result").forEach((row) => row.remove())
+  const rows = trie.children
+    .map((child) => filterTrieNode(child, query))
+    .filter((child): child is FilteredNode => child !== null)
+    .map((item) => createFilteredNode(item, opts))
+  if (rows.length === 0) {
+    const empty = document.createElement("li")
+    empty.className = "explorer-filter-empty"
+    empty.textContent = "No matches"
+    rows.push(empty)
+  }
+  for (const row of rows) {
+    row.classList.add("explorer-filter-result")
+    explorerUl.insertBefore(row, overflowEnd)
+  }
+  explorerUl.scrollTop = 0
+  ensureTabStop(explorerUl)
+}
 
-    // We need to fetch individual page data to get frontmatter
-    // Since Quartz doesn't expose full frontmatter in contentIndex,
-    // we'll need to make a request to get the original markdown files
+function setupFilter(explorer: HTMLElement, explorerUl: HTMLElement) {
+  const input = explorer.querySelector(".explorer-filter") as HTMLInputElement | null
+  if (!input) return
 
-    // For now, we'll try to get frontmatter from meta tags if available
-    // or implement a custom solution
+  let timeout: ReturnType<typeof setTimeout> | undefined
+  const onInput = () => {
+    clearTimeout(timeout)
+    timeout = setTimeout(() => applyFilter(explorer, explorerUl, input.value), 100)
+  }
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape" && input.value.length > 0) {
+      e.preventDefault()
+      input.value = ""
+      applyFilter(explorer, explorerUl, "")
+    }
+  }
 
-    // Try to get frontmatter from the current page's meta tags as an example
-    const currentPageMeta = document.querySelector('meta[name="frontmatter"]')
-    if (currentPageMeta) {
-      try {
-        const frontmatter = JSON.parse(currentPageMeta.getAttribute('content') || '{}')
-        const currentSlug = window.location.pathname.replace(/\/$/, '') || '/index'
-        frontmatterCache.set(currentSlug, frontmatter)
-      } catch (e) {
-        // Ignore parsing errors
-      }
+  input.addEventListener("input", onInput)
+  input.addEventListener("keydown", onKeyDown)
+  window.addCleanup(() => {
+    clearTimeout(timeout)
+    input.removeEventListener("input", onInput)
+    input.removeEventListener("keydown", onKeyDown)
+  })
+
+  // The browser may keep the typed value across navigation
+  if (input.value.length > 0) {
+    applyFilter(explorer, explorerUl, input.value)
+  }
+}
+
+// Treeitems that are not inside a collapsed folder, in document order
+function visibleItems(explorerUl: HTMLElement): HTMLElement[] {
+  const items = explorerUl.querySelectorAll('li[role="treeitem"]') as NodeListOf<HTMLElement>
+  return Array.from(items).filter((li) => !li.parentElement?.closest(".folder-outer:not(.open)"))
+}
+
+function itemLabel(li: HTMLElement): string {
+  const label = li.querySelector(":scope > a, :scope > .folder-container")
+  const icon = label?.querySelector(".explorer-icon")?.textContent ?? ""
+  return (label?.textContent ?? "").replace(icon, "").trim().toLowerCase()
+}
+
+// Roving tabindex: exactly one treeitem is reachable with Tab, arrow keys move it
+function focusItem(explorerUl: HTMLElement, li: HTMLElement) {
+  explorerUl.querySelectorAll('li[role="treeitem"][tabindex="0"]').forEach((item) => {
+    if (item !== li) (item as HTMLElement).tabIndex = -1
+  })
+  li.tabIndex = 0
+  li.focus()
+}
+
+// Keep a tab stop on a visible row after rows were rebuilt, filtered or collapsed
+function ensureTabStop(explorerUl: HTMLElement) {
+  const items = visibleItems(explorerUl)
+  if (items.some((li) => li.tabIndex === 0)) return
+  explorerUl.querySelectorAll('li[role="treeitem"][tabindex="0"]').forEach((item) => {
+    ;(item as HTMLElement).tabIndex = -1
+  })
+  const active = explorerUl.querySelector(".active")?.closest('li[role="treeitem"]') as HTMLElement | null
+  const stop = active && items.includes(active) ? active : items[0]
+  if (stop) stop.tabIndex = 0
+}
+
+function setupKeyboard(explorer: HTMLElement, explorerUl: HTMLElement) {
+  let typeahead = ""
+  let typeaheadTimeout: ReturnType<typeof setTimeout> | undefined
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    const li = (e.target as HTMLElement).closest('li[role="treeitem"]') as HTMLElement | null
+    if (!li || e.altKey || e.ctrlKey || e.metaKey) return
+
+    const items = visibleItems(explorerUl)
+    const index = items.indexOf(li)
+    const folderContainer = li.querySelector(":scope > .folder-container") as HTMLElement | null
+    const expanded = li.getAttribute("aria-expanded")
+    const move = (target: HTMLElement | null | undefined) => {
+      e.preventDefault()
+      if (target) focusItem(explorerUl, target)
     }
 
-    // Alternative: try to fetch frontmatter data from a custom endpoint
-    // This would require adding a custom emitter to expose frontmatter data
-    try {
-      const frontmatterResponse = await fetch(`${window.location.origin}/static/frontmatterIndex.json`)
-      if (frontmatterResponse.ok) {
-        const frontmatterIndex = await frontmatterResponse.json()
-        // Cache all frontmatter data
-        for (const [slug, data] of Object.entries(frontmatterIndex)) {
-          frontmatterCache.set(slug, data)
+    switch (e.key) {
+      case "ArrowDown":
+        return move(items[index + 1])
+      case "ArrowUp":
+        return move(items[index - 1])
+      case "Home":
+        return move(items[0])
+      case "End":
+        return move(items[items.length - 1])
+      case "ArrowRight":
+        if (expanded === "false" && folderContainer) {
+          e.preventDefault()
+          setFolderOpen(explorer, folderContainer, true)
+          return
+        }
+        return move(
+          expanded === "true"
+            ? (li.querySelector(':scope > .folder-outer li[role="treeitem"]') as HTMLElement | null)
+            : null,
+        )
+      case "ArrowLeft":
+        if (expanded === "true" && folderContainer) {
+          e.preventDefault()
+          setFolderOpen(explorer, folderContainer, false)
+          return
         }
+        return move(li.parentElement?.closest('li[role="treeitem"]') as HTMLElement | null)
+      case "Enter": {
+        e.preventDefault()
+        const link = li.querySelector(":scope > a, :scope > .folder-container a") as HTMLElement | null
+        if (link) {
+          link.click()
+        } else if (folderContainer) {
+          setFolderOpen(explorer, folderContainer, expanded !== "true")
+        }
+        return
       }
-    } catch (e) {
-      // Frontmatter index doesn't exist yet, that's ok
-      console.log("No frontmatter index found, using fallback sorting")
     }
 
-  } catch (error) {
-    console.warn("Error fetching frontmatter data:", error)
+    // Type-ahead: jump to the next row whose label starts with the typed characters
+    if (e.key.length !== 1 || e.key === " ") return
+    clearTimeout(typeaheadTimeout)
+    typeahead += e.key.toLowerCase()
+    typeaheadTimeout = setTimeout(() => (typeahead = ""), 500)
+    // A new search starts after the current row, a longer one may still match the current row
+    const start = typeahead.length > 1 ? index : index + 1
+    const candidates = [...items.slice(start), ...items.slice(0, start)]
+    move(candidates.find((item) => itemLabel(item).startsWith(typeahead)))
   }
+
+  // Clicking or otherwise focusing a row makes it the tab stop
+  const onFocusIn = (e: FocusEvent) => {
+    const li = (e.target as HTMLElement).closest('li[role="treeitem"]') as HTMLElement | null
+    if (!li || li.tabIndex === 0) return
+    explorerUl.querySelectorAll('li[role="treeitem"][tabindex="0"]').forEach((item) => {
+      ;(item as HTMLElement).tabIndex = -1
+    })
+    li.tabIndex = 0
+  }
+
+  explorerUl.addEventListener("keydown", onKeyDown)
+  explorerUl.addEventListener("focusin", onFocusIn)
+  window.addCleanup(() => {
+    clearTimeout(typeaheadTimeout)
+    explorerUl.removeEventListener("keydown", onKeyDown)
+    explorerUl.removeEventListener("focusin", onFocusIn)
+  })
+  ensureTabStop(explorerUl)
 }
 
-async function setupExplorer(currentSlug: FullSlug) {
-  // Fetch frontmatter data first
-  await fetchFrontmatterData()
+function folderPaths(node: ExplorerNode): FullSlug[] {
+  return node.children
+    .filter((child) => child.isFolder)
+    .flatMap((child) => [child.slug, ...folderPaths(child)])
+}
 
-  const allExplorers = document.querySelectorAll("div.explorer") as NodeListOf<HTMLElement>
+// The normal tree, wherever it currently lives: in the list, or set aside while filtering
+function normalRows(explorerUl: HTMLElement): ParentNode {
+  return stashedRows.get(explorerUl)?.rows ?? explorerUl
+}
 
-  for (const explorer of Array.from(allExplorers)) {
-    const dataFns = JSON.parse(explorer.dataset.dataFns || "{}")
-    const opts: ParsedOptions = {
-      folderClickBehavior: (explorer.dataset.behavior || "collapse") as "collapse" | "link",
-      folderDefaultState: (explorer.dataset.collapsed || "collapsed") as "collapsed" | "open",
-      useSavedState: explorer.dataset.savestate === "true",
-      order: dataFns.order || ["filter", "map", "sort"],
-      sortFn: createCustomSortFn(), // Use our custom sort function
-      filterFn: new Function("return " + (dataFns.filterFn || "undefined"))(),
-      mapFn: new Function("return " + (dataFns.mapFn || "undefined"))(),
-    }
+async function expandAll(explorer: HTMLElement, explorerUl: HTMLElement) {
+  const trie = await loadTrie(explorer, parseOptions(explorer))
+  for (const path of folderPaths(trie)) {
+    updateFolderState(path, false)
+  }
+  persistFolderState()
+
+  // Folders built from here on open themselves from the saved state
+  const folderContainers = normalRows(explorerUl).querySelectorAll(
+    ".folder-container[data-folderpath]",
+  ) as NodeListOf<HTMLElement>
+  for (const folderContainer of Array.from(folderContainers)) {
+    const folderOuter = folderContainer.nextElementSibling as MaybeHTMLElement
+    if (!folderOuter || folderOuter.classList.contains("open")) continue
+    setFolderState(folderOuter, false)
+    const ul = folderOuter.querySelector(":scope > ul") as HTMLElement | null
+    if (ul?.dataset.rendered === "0") renderLazyList(explorer, ul)
+  }
+  forgetRowHeights(explorerUl)
+  scheduleWindowUpdate(explorer, explorerUl)
+}
 
-    // Get folder state from local storage
-    const storageTree = localStorage.getItem("fileTree")
-    const serializedExplorerState = storageTree && opts.useSavedState ? JSON.parse(storageTree) : []
-    const oldIndex = new Map<string, boolean>(
-      serializedExplorerState.map((entry: FolderState) => [entry.path, entry.collapsed]),
-    )
+// Rows that were recycled before every folder was opened or closed don't have those heights anymore
+function forgetRowHeights(explorerUl: HTMLElement) {
+  normalRows(explorerUl)
+    .querySelectorAll("ul[data-window]")
+    .forEach((ul) => rowHeights.delete(ul as HTMLElement))
+}
 
-    const data = await fetchData
-    const entries = [...Object.entries(data)] as [FullSlug, ContentDetails][]
-    const trie = FileTrieNode.fromEntries(entries)
+async function collapseAll(explorer: HTMLElement, explorerUl: HTMLElement) {
+  const trie = await loadTrie(explorer, parseOptions(explorer))
+  for (const item of currentExplorerState) {
+    item.collapsed = true
+  }
+  for (const path of folderPaths(trie)) {
+    updateFolderState(path, true)
+  }
+  persistFolderState()
+
+  normalRows(explorerUl)
+    .querySelectorAll(".folder-outer.open")
+    .forEach((folderOuter) => setFolderState(folderOuter as HTMLElement, true))
+  forgetRowHeights(explorerUl)
+  scheduleWindowUpdate(explorer, explorerUl)
+  ensureTabStop(explorerUl)
+}
 
-    // Apply functions in order
-    for (const fn of opts.order) {
-      switch (fn) {
-        case "filter":
-          if (opts.filterFn) trie.filter(opts.filterFn)
-          break
-        case "map":
-          if (opts.mapFn) trie.map(opts.mapFn)
-          break
-        case "sort":
-          if (opts.sortFn) trie.sort(opts.sortFn)
-          break
-      }
+function setupActions(explorer: HTMLElement, explorerUl: HTMLElement) {
+  const expandButton = explorer.querySelector(".explorer-expand-all") as HTMLElement | null
+  const collapseButton = explorer.querySelector(".explorer-collapse-all") as HTMLElement | null
+  const onExpand = () => expandAll(explorer, explorerUl)
+  const onCollapse = () => collapseAll(explorer, explorerUl)
+
+  expandButton?.addEventListener("click", onExpand)
+  collapseButton?.addEventListener("click", onCollapse)
+  window.addCleanup(() => {
+    expandButton?.removeEventListener("click", onExpand)
+    collapseButton?.removeEventListener("click", onCollapse)
+  })
+}
+
+// The tree is rendered at build time; apply the saved open/collapsed state on top of it.
+// Ancestors of the current page always stay open, and saved-open folders that the build left
+// collapsed are filled in now.
+function hydrateFolderState(explorer: HTMLElement, opts: ParsedOptions): Promise<void>[] {
+  const storageTree = localStorage.getItem("fileTree")
+  currentExplorerState = storageTree && opts.useSavedState ? JSON.parse(storageTree) : []
+
+  const folderContainers = explorer.querySelectorAll(
+    ".folder-container[data-folderpath]",
+  ) as NodeListOf<HTMLElement>
+
+  const pending: Promise<void>[] = []
+  for (const folderContainer of Array.from(folderContainers)) {
+    const path = folderContainer.dataset.folderpath as FullSlug
+    const defaultCollapsed =
+      folderContainer.dataset.collapsed === undefined ? null : folderContainer.dataset.collapsed === "true"
+    const collapsed = isFolderCollapsed(path, opts, defaultCollapsed) && !isPrefixOfCurrentSlug(path)
+    const folderOuter = folderContainer.nextElementSibling as MaybeHTMLElement
+    if (!folderOuter) continue
+
+    setFolderState(folderOuter, collapsed)
+    const ul = folderOuter.querySelector(":scope > ul") as HTMLElement | null
+    if (!collapsed && ul?.dataset.rendered === "0") {
+      pending.push(renderLazyList(explorer, ul))
     }
+  }
 
-    // Get folder paths for state management
-    const folderPaths = trie.getFolderPaths()
-    currentExplorerState = folderPaths.map((path) => {
-      const previousState = oldIndex.get(path)
-      return {
-        path,
-        collapsed:
-          previousState === undefined ? opts.folderDefaultState === "collapsed" : previousState,
-      }
-    })
+  // File and header folders keep their server-rendered state unless the reader toggled them,
+  // except that the current page's own table of contents always stays open
+  const headerContainers = explorer.querySelectorAll(
+    ".folder-container[data-headerpath]",
+  ) as NodeListOf<HTMLElement>
+  for (const folderContainer of Array.from(headerContainers)) {
+    const path = folderContainer.dataset.headerpath as string
+    const saved = savedFolderState(path)
+    const folderOuter = folderContainer.nextElementSibling as MaybeHTMLElement
+    if (saved === undefined || !folderOuter || path === currentSlug) continue
+
+    setFolderState(folderOuter, saved)
+    const ul = folderOuter.querySelector(":scope > ul") as HTMLElement | null
+    if (!saved && ul?.dataset.rendered === "0") {
+      pending.push(renderLazyList(explorer, ul))
+    }
+  }
+  return pending
+}
 
-    const explorerUl = explorer.querySelector(".explorer-ul")
-    if (!explorerUl) continue
+async function setupExplorer() {
+  const allExplorers = document.querySelectorAll("div.explorer") as NodeListOf<HTMLElement>
 
-    // Create and insert new content
-    const fragment = document.createDocumentFragment()
-    for (const child of trie.children) {
-      const node = child.isFolder
-        ? createFolderNode(currentSlug, child, opts)
-        : createFileNode(currentSlug, child)
+  for (const explorer of Array.from(allExplorers)) {
+    const opts = parseOptions(explorer)
+    const explorerUl = explorer.querySelector(".explorer-ul") as HTMLElement | null
+    if (!explorerUl) continue
 
-      fragment.appendChild(node)
+    // Windowed lists follow scrolling, resizing and folders finishing opening or closing
+    const onLayoutChange = () => scheduleWindowUpdate(explorer, explorerUl)
+    const onTransitionEnd = (e: TransitionEvent) => {
+      if ((e.target as HTMLElement).classList.contains("folder-outer")) onLayoutChange()
     }
-    explorerUl.insertBefore(fragment, explorerUl.firstChild)
+    explorerUl.addEventListener("scroll", onLayoutChange, { passive: true })
+    explorerUl.addEventListener("transitionend", onTransitionEnd)
+    window.addEventListener("resize", onLayoutChange)
+    window.addCleanup(() => {
+      cancelAnimationFrame(windowUpdates.get(explorerUl) ?? 0)
+      windowUpdates.delete(explorerUl)
+      explorerUl.removeEventListener("scroll", onLayoutChange)
+      explorerUl.removeEventListener("transitionend", onTransitionEnd)
+      window.removeEventListener("resize", onLayoutChange)
+    })
+
+    await Promise.all(hydrateFolderState(explorer, opts))
 
     // restore explorer scrollTop position if it exists
     const scrollTop = sessionStorage.getItem("explorerScrollTop")
+    const activeElement = explorerUl.querySelector(".active")
     if (scrollTop) {
-      explorerUl.scrollTop = parseInt(scrollTop)
+      await restoreScrollTop(explorer, explorerUl, parseInt(scrollTop))
+    } else if (activeElement) {
+      // try to scroll to the active element if it exists, once the rows around it are in place
+      await updateWindows(explorer, explorerUl, activeElement)
+      activeElement.scrollIntoView({ behavior: "smooth" })
     } else {
-      // try to scroll to the active element if it exists
-      const activeElement = explorerUl.querySelector(".active")
-      if (activeElement) {
-        activeElement.scrollIntoView({ behavior: "smooth" })
-      }
+      await updateWindows(explorer, explorerUl)
     }
 
     // Set up event handlers
@@ -455,40 +1083,33 @@ async function setupExplorer(currentSlug: FullSlug) {
       window.addCleanup(() => button.removeEventListener("click", toggleExplorer))
     }
 
-    // Set up folder click handlers
-    if (opts.folderClickBehavior === "collapse") {
-      const folderButtons = explorer.getElementsByClassName(
-        "folder-button",
-      ) as HTMLCollectionOf<HTMLElement>
-      for (const button of Array.from(folderButtons)) {
-        button.addEventListener("click", toggleFolder)
-        window.addCleanup(() => button.removeEventListener("click", toggleFolder))
-      }
-    }
+    setupFilter(explorer, explorerUl)
+    setupKeyboard(explorer, explorerUl)
+    setupActions(explorer, explorerUl)
 
-    const folderIcons = explorer.getElementsByClassName(
-      "folder-icon",
-    ) as HTMLCollectionOf<HTMLElement>
-    for (const icon of Array.from(folderIcons)) {
-      icon.addEventListener("click", toggleFolder)
-      window.addCleanup(() => icon.removeEventListener("click", toggleFolder))
-    }
+    // Folder icons (and folder buttons in "collapse" mode) toggle folders
+    explorerUl.addEventListener("click", toggleFolder)
+    window.addCleanup(() => explorerUl.removeEventListener("click", toggleFolder))
   }
 }
 
 document.addEventListener("prenav", async () => {
   // save explorer scrollTop position
-  const explorer = document.querySelector(".explorer-ul")
+  const explorer = document.querySelector(".explorer-ul") as HTMLElement | null
   if (!explorer) return
-  sessionStorage.setItem("explorerScrollTop", explorer.scrollTop.toString())
+  // While filtering, keep the position of the normal tree rather than the results
+  const scrollTop = stashedRows.get(explorer)?.scrollTop ?? explorer.scrollTop
+  sessionStorage.setItem("explorerScrollTop", scrollTop.toString())
 })
 
 document.addEventListener("nav", async (e: CustomEventMap["nav"]) => {
-  const currentSlug = e.detail.url
-  await setupExplorer(currentSlug)
+  currentSlug = e.detail.url
+  // Which folders lead to the current page changed
+  estimatedHeights = new Map()
+  await setupExplorer()
 
-  // Setup TOC highlighting for the new page
-  setupTocHighlighting()
+  // Follow the reader through the new page's headings
+  setupScrollSpy()
 
   // if mobile hamburger is visible, collapse by default
   for (const explorer of Array.from(document.getElementsByClassName("explorer"))) {
@@ -514,35 +1135,111 @@ window.addEventListener("resize", function () {
   }
 })
 
-// Scroll-based TOC highlighting (matches stock TOC behavior)
-function setupTocHighlighting() {
-  const headerLinks = document.querySelectorAll(".header-link")
-  if (headerLinks.length === 0) return
-
-  // Use same observer logic as stock TOC
-  const observer = new IntersectionObserver((entries) => {
-    for (const entry of entries) {
-      const slug = entry.target.id
-      const tocEntryElements = document.querySelectorAll(`.header-link[href$="#${slug}"]`)
-      const windowHeight = entry.rootBounds?.height
-      if (windowHeight && tocEntryElements.length > 0) {
-        if (entry.boundingClientRect.y < windowHeight) {
-          tocEntryElements.forEach((tocEntryElement) => tocEntryElement.classList.add("in-view"))
-        } else {
-          tocEntryElements.forEach((tocEntryElement) => tocEntryElement.classList.remove("in-view"))
-        }
+// Map heading ids to their links in the current page's own outline in this explorer
+function outlineLinks(explorerUl: Element): { pageOuter: HTMLElement; links: Map<string, HTMLElement> } | null {
+  const container = explorerUl.querySelector(
+    `.folder-container[data-headerpath="${CSS.escape(currentSlug)}"]`,
+  )
+  const pageOuter = container?.nextElementSibling as HTMLElement | null | undefined
+  // Nothing to follow if the reader collapsed the page's outline
+  if (!pageOuter?.classList.contains("open")) return null
+
+  const links = new Map<string, HTMLElement>()
+  pageOuter.querySelectorAll("a.header-link").forEach((link) => {
+    const id = link.getAttribute("href")?.split("#").pop()
+    if (id) links.set(id, link as HTMLElement)
+  })
+  return { pageOuter, links }
+}
+
+// Keep the row in view inside the explorer's own scroll area without scrolling the page
+function scrollIntoExplorerView(explorerUl: HTMLElement, row: HTMLElement) {
+  const ulRect = explorerUl.getBoundingClientRect()
+  const rowRect = row.getBoundingClientRect()
+  if (rowRect.top < ulRect.top || rowRect.bottom > ulRect.bottom) {
+    explorerUl.scrollTop += rowRect.top - ulRect.top - ulRect.height / 3
+  }
+}
+
+/**
+ * Mark the current heading in the page outline: the last heading above the top quarter of the
+ * viewport. Header folders leading to it are opened, and ones opened earlier for other
+ * headings are closed again.
+ */
+function updateScrollSpy(headers: HTMLElement[]) {
+  const line = window.innerHeight / 4
+  const explorerUls = document.querySelectorAll(".explorer-ul") as NodeListOf<HTMLElement>
+
+  for (const explorerUl of Array.from(explorerUls)) {
+    const outline = outlineLinks(explorerUl)
+    if (!outline) continue
+    const { pageOuter, links } = outline
+
+    let current: HTMLElement | undefined
+    for (const header of headers) {
+      if (!links.has(header.id)) continue
+      if (current && header.getBoundingClientRect().top > line) break
+      current = header
+    }
+    const link = current ? links.get(current.id) : undefined
+
+    pageOuter.querySelectorAll(".header-link.current").forEach((el) => {
+      if (el === link) return
+      el.classList.remove("current")
+      el.removeAttribute("aria-current")
+    })
+    if (!link) continue
+
+    const ancestors = new Set<HTMLElement>()
+    let outer = link.parentElement?.closest(".folder-outer") as HTMLElement | null | undefined
+    while (outer && outer !== pageOuter) {
+      ancestors.add(outer)
+      if (!outer.classList.contains("open")) {
+        setFolderState(outer, false)
+        autoOpened.add(outer)
       }
+      outer = outer.parentElement?.closest(".folder-outer") as HTMLElement | null | undefined
+    }
+    for (const folderOuter of autoOpened) {
+      if (ancestors.has(folderOuter) || !pageOuter.contains(folderOuter)) continue
+      setFolderState(folderOuter, true)
+      autoOpened.delete(folderOuter)
     }
-  })
 
-  // Observe all headers on the page (same as stock TOC)
-  const headers = document.querySelectorAll("h1[id], h2[id], h3[id], h4[id], h5[id], h6[id]")
+    if (!link.classList.contains("current")) {
+      link.classList.add("current")
+      link.setAttribute("aria-current", "location")
+      scrollIntoExplorerView(explorerUl, link)
+    }
+  }
+}
+
+// Scroll-spy for the current page's headings in the explorer
+function setupScrollSpy() {
+  autoOpened = new Set()
+  const headers = Array.from(
+    document.querySelectorAll("h1[id], h2[id], h3[id], h4[id], h5[id], h6[id]"),
+  ) as HTMLElement[]
+  if (headers.length === 0) return
+
+  // The current heading can only change when one crosses the line at the top quarter
+  let frame = 0
+  const schedule = () => {
+    cancelAnimationFrame(frame)
+    frame = requestAnimationFrame(() => updateScrollSpy(headers))
+  }
+  const observer = new IntersectionObserver(schedule, { rootMargin: "0px 0px -75% 0px" })
   headers.forEach((header) => observer.observe(header))
+  schedule()
 
   // Clean up observer on page navigation
-  window.addCleanup(() => observer.disconnect())
+  window.addCleanup(() => {
+    cancelAnimationFrame(frame)
+    observer.disconnect()
+  })
 }
 
 function setFolderState(folderElement: HTMLElement, collapsed: boolean) {
+  folderElement.parentElement?.setAttribute("aria-expanded", collapsed ? "false" : "true")
   return collapsed ? folderElement.classList.remove("open") : folderElement.classList.add("open")
 }
@@ -0,0 +1,24 @@
+// Filter box on the diagnostics index page, matching codes and titles as the user types
+function filterRows(input: HTMLInputElement) {
+  const query = input.value.trim().toLowerCase()
+  const rows = input.parentElement?.querySelectorAll("table tbody tr") as
+    | NodeListOf<HTMLElement>
+    | undefined
+  for (const row of Array.from(rows ?? [])) {
+    const text = row.textContent?.toLowerCase() ?? ""
+    row.style.display = query.length === 0 || text.includes(query) ? "" : "none"
+  }
+}
+
+function onFilterInput(this: HTMLInputElement) {
+  filterRows(this)
+}
+
+document.addEventListener("nav", () => {
+  const filters = document.querySelectorAll(".diagnostic-filter") as NodeListOf<HTMLInputElement>
+  for (const filter of Array.from(filters)) {
+    filterRows(filter)
+    filter.addEventListener("input", onFilterInput)
+    window.addCleanup(() => filter.removeEventListener("input", onFilterInput))
+  }
+})
@@ -0,0 +1,47 @@
+// Client access to static/frontmatterIndex.json, the single index the explorer reads.
+// The explorer renders `data-index-hash` at build time; the index is kept in memory for the
+// lifetime of the page and in sessionStorage across reloads, and only refetched when the hash
+// changes (i.e. after a new build is deployed).
+
+const STORAGE_KEY = "explorerIndex"
+
+let cached: { hash: string; index: Promise<Record<string, any>> } | undefined
+
+export function loadExplorerIndex(hash: string): Promise<Record<string, any>> {
+  if (cached?.hash === hash) return cached.index
+
+  const stored = sessionStorage.getItem(STORAGE_KEY)
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored)
+      if (parsed.hash === hash && parsed.index) {
+        cached = { hash, index: Promise.resolve(parsed.index) }
+        return cached.index
+      }
+    } catch {
+      // Truncated or corrupt entry: drop it and fetch the index again
+      sessionStorage.removeItem(STORAGE_KEY)
+    }
+  }
+
+  const index = fetch(`${window.location.origin}/static/frontmatterIndex.json?v=${hash}`)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Could not fetch explorer index (${response.status})`)
+      return response.json()
+    })
+    .then((index) => {
+      try {
+        sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ hash, index }))
+      } catch {
+        // Storage full or disabled; the in-memory copy still avoids refetching
+      }
+      return index
+    })
+    .catch((error) => {
+      // Let the next caller retry instead of caching the failure
+      cached = undefined
+      throw error
+    })
+  cached = { hash, index }
+  return index
+}
@@ -0,0 +1,40 @@
+// Click-to-sort headers of the table view on folder pages
+function cellValue(row: HTMLTableRowElement, column: number): string {
+  const cell = row.cells[column]
+  return (cell?.dataset.sortValue ?? cell?.textContent ?? "").trim()
+}
+
+function sortTable(this: HTMLButtonElement) {
+  const th = this.closest("th") as HTMLTableCellElement | null
+  const table = th?.closest("table") as HTMLTableElement | null
+  if (!th || !table) return
+
+  const ascending = th.getAttribute("aria-sort") !== "ascending"
+  table.querySelectorAll("th[aria-sort]").forEach((other) => other.removeAttribute("aria-sort"))
+  th.setAttribute("aria-sort", ascending ? "ascending" : "descending")
+
+  const column = th.cellIndex
+  const tbody = table.tBodies[0]
+  const rows = Array.from(tbody.rows)
+  rows.sort((a, b) => {
+    const aValue = cellValue(a, column)
+    const bValue = cellValue(b, column)
+    // Pages without a value stay at the bottom in both directions
+    if (aValue === "" || bValue === "") return aValue === bValue ? 0 : aValue === "" ? 1 : -1
+
+    const numeric = !isNaN(Number(aValue)) && !isNaN(Number(bValue))
+    const order = numeric
+      ? Number(aValue) - Number(bValue)
+      : aValue.localeCompare(bValue, undefined, { numeric: true, sensitivity: "base" })
+    return ascending ? order : -order
+  })
+  tbody.append(...rows)
+}
+
+document.addEventListener("nav", () => {
+  const buttons = document.querySelectorAll(".folder-table-sort") as NodeListOf<HTMLButtonElement>
+  for (const button of Array.from(buttons)) {
+    button.addEventListener("click", sortTable)
+    window.addCleanup(() => button.removeEventListener("click", sortTable))
+  }
+})
@@ -0,0 +1,59 @@
+import test, { describe } from "node:test"
+import assert from "node:assert"
+import { LanguageRegistration } from "shiki"
+import { createGrammarTokenizer } from "./grammar-tokenizer"
+import { snippetDiagnostics } from "./snippet-corpus"
+
+// A cut-down Cesium grammar: comments, strings, numbers, a few keywords and types. Identifiers,
+// punctuation and operators are deliberately left unscoped, as in the real grammar.
+const grammar = {
+  name: "cesium-test",
+  scopeName: "source.cesium-test",
+  patterns: [
+    { name: "comment.line.double-slash", match: "//.*$" },
+    {
+      name: "string.quoted.double",
+      begin: '"',
+      end: '"|$',
+      endCaptures: { 0: { name: "punctuation.definition.string.end" } },
+      patterns: [{ name: "constant.character.escape", match: "\\\\." }],
+    },
+    { name: "constant.numeric", match: "\\b\\d+(\\.\\d+)?\\b" },
+    { name: "keyword.control", match: "\\b(return|if|else|for)\\b" },
+    { name: "storage.type", match: "\\b(i32|f64|void|struct)\\b" },
+    { name: "invalid.illegal", match: "\\bgoto\\b" },
+  ],
+} as unknown as LanguageRegistration
+
+const validSnippet = [
+  "// Multiple return values",
+  "i32, f64 = divide_with_remainder(i32 dividend, i32 divisor) {",
+  "    if (divisor == 0) { return 0, 0.0; }",
+  '    print("dividing");',
+  "    return dividend / divisor, dividend % divisor;",
+  "}",
+].join("\n")
+
+describe("snippetDiagnostics", async () => {
+  const tokenize = await createGrammarTokenizer(grammar)
+
+  test("reports nothing for a snippet the grammar understands", () => {
+    assert.deepStrictEqual(snippetDiagnostics(tokenize(validSnippet)), [])
+  })
+
+  test("reports tokens in an invalid scope", () => {
+    const diagnostics = snippetDiagnostics(tokenize("goto done;"))
+    assert.deepStrictEqual(
+      diagnostics.map(({ reason, text }) => ({ reason, text })),
+      [{ reason: "invalid-scope", text: "goto" }],
+    )
+  })
+
+  test("reports unscoped text that is not an identifier, number or operator", () => {
+    const diagnostics = snippetDiagnostics(tokenize("x := @value;"))
+    assert.strictEqual(diagnostics.length, 1)
+    assert.strictEqual(diagnostics[0].reason, "unmatched")
+    assert.match(diagnostics[0].text, /@/)
+    assert.strictEqual(diagnostics[0].column, 1)
+  })
+})
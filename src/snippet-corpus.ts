@@ -0,0 +1,159 @@
+import { QuartzEmitterPlugin } from "./quartz/plugins/types"
+import { FullSlug, joinSegments } from "./quartz/util/path"
+import { write } from "./quartz/plugins/emitters/helpers"
+import { Element, Root } from "hast"
+import { visit } from "unist-util-visit"
+import { toString } from "hast-util-to-string"
+import { LanguageRegistration } from "shiki"
+import { createGrammarTokenizer, GrammarToken } from "./grammar-tokenizer"
+import chalk from "chalk"
+
+interface Options {
+  /**
+   * The TextMate grammar used by CustomSyntaxHighlighting for Cesium code
+   */
+  grammar: LanguageRegistration
+  /**
+   * Code block language to collect
+   */
+  lang: string
+  /**
+   * Output folder (relative to the output directory) for the corpus
+   */
+  outputDir: string
+}
+
+const defaultOptions: Omit<Options, "grammar"> = {
+  lang: "cesium",
+  outputDir: "static/snippets",
+}
+
+export interface SnippetDiagnostic extends GrammarToken {
+  reason: "invalid-scope" | "unmatched"
+}
+
+// Text a grammar may leave unscoped in valid code: identifiers, numbers, whitespace, brackets,
+// separators and operators. Anything else outside every rule (a stray `@` or backtick, an
+// unterminated quote) means the grammar didn't understand the snippet.
+const PLAIN_TEXT = /^[\p{L}\p{N}_\s()[\]{},;.:=+\-*/%&|^!~?<>]*$/u
+
+/**
+ * Tokens in an `invalid.*` scope, and unscoped text other than what PLAIN_TEXT allows
+ */
+export function snippetDiagnostics(tokens: GrammarToken[][]): SnippetDiagnostic[] {
+  return tokens.flat().flatMap((token): SnippetDiagnostic[] => {
+    if (token.scopes.some((scope) => scope.startsWith("invalid."))) {
+      return [{ ...token, reason: "invalid-scope" }]
+    }
+    // Only the root scope applied: no grammar rule matched this text
+    if (token.scopes.length <= 1 && !PLAIN_TEXT.test(token.text)) {
+      return [{ ...token, reason: "unmatched" }]
+    }
+    return []
+  })
+}
+
+interface Snippet {
+  slug: FullSlug
+  heading: { text: string; id: string } | null
+  ordinal: number
+  file: string
+  code: string
+  diagnostics: SnippetDiagnostic[]
+}
+
+function dataLanguage(node: Element): string | undefined {
+  const lang = node.properties?.dataLanguage ?? node.properties?.["data-language"]
+  return typeof lang === "string" ? lang : undefined
+}
+
+// Walk the rendered page in document order, pairing each code block with the heading above it
+function extractSnippets(slug: FullSlug, tree: Root, lang: string, outputDir: string) {
+  const snippets: Omit<Snippet, "diagnostics">[] = []
+  let heading: Snippet["heading"] = null
+
+  visit(tree, "element", (node: Element) => {
+    if (/^h[1-6]$/.test(node.tagName) && typeof node.properties?.id === "string") {
+      heading = { text: toString(node).trim(), id: node.properties.id }
+      return
+    }
+
+    if (node.tagName !== "pre") return
+    const code = node.children.find(
+      (child): child is Element => child.type === "element" && child.tagName === "code",
+    )
+    if (!code || (dataLanguage(code) ?? dataLanguage(node)) !== lang) return
+
+    const ordinal = snippets.length + 1
+    snippets.push({
+      slug,
+      heading,
+      ordinal,
+      file: joinSegments(outputDir, slug, String(ordinal).padStart(3, "0")) + ".cs",
+      code: toString(code).replace(/\n$/, ""),
+    })
+  })
+
+  return snippets
+}
+
+/**
+ * Custom emitter that collects every Cesium code block into a reusable corpus
+ * Each snippet is written as a .cs file plus an index.json, and is re-tokenized with the site grammar
+ * so examples that the highlighter cannot understand are reported at build time
+ */
+export const CesiumSnippetCorpus: QuartzEmitterPlugin<Partial<Options> & Pick<Options, "grammar">> = (
+  userOpts,
+) => {
+  const opts: Options = { ...defaultOptions, ...userOpts }
+
+  return {
+    name: "CesiumSnippetCorpus",
+    async *emit(ctx, content) {
+      const tokenizer = await createGrammarTokenizer(opts.grammar)
+
+      const corpus: Snippet[] = []
+      for (const [tree, file] of content) {
+        for (const snippet of extractSnippets(file.data.slug!, tree, opts.lang, opts.outputDir)) {
+          corpus.push({ ...snippet, diagnostics: snippetDiagnostics(tokenizer(snippet.code)) })
+        }
+      }
+
+      for (const snippet of corpus) {
+        yield write({
+          ctx,
+          content: snippet.code + "\n",
+          slug: snippet.file.replace(/\.cs$/, "") as FullSlug,
+          ext: ".cs",
+        })
+      }
+
+      yield write({
+        ctx,
+        content: JSON.stringify(corpus, null, 2),
+        slug: joinSegments(opts.outputDir, "index") as FullSlug,
+        ext: ".json",
+      })
+
+      const flagged = corpus.filter((snippet) => snippet.diagnostics.length > 0)
+      if (flagged.length > 0) {
+        const lines = [
+          chalk.yellow(
+            `${flagged.length} of ${corpus.length} ${opts.lang} snippet(s) do not tokenize cleanly:`,
+          ),
+        ]
+        for (const snippet of flagged) {
+          const where = snippet.heading ? `${snippet.slug}#${snippet.heading.id}` : snippet.slug
+          lines.push("", `  ${chalk.bold(where)} (block ${snippet.ordinal})`)
+          for (const diag of snippet.diagnostics) {
+            lines.push(
+              `    ${diag.line}:${diag.column} ${chalk.yellow(diag.reason.padEnd(13))} ${JSON.stringify(diag.text)}` +
+                (diag.reason === "invalid-scope" ? ` [${diag.scopes.at(-1)}]` : ""),
+            )
+          }
+        }
+        console.warn(lines.join("\n") + "\n")
+      }
+    },
+  }
+}
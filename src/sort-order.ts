@@ -0,0 +1,30 @@
+// Page order shared by the explorer (server render and client script) and folder pages
+
+export interface SortKey {
+  isFolder: boolean
+  /**
+   * `sortorder` frontmatter; a folder takes it from its index.md
+   */
+  sortorder: unknown
+}
+
+/**
+ * Folders before files, then ascending `sortorder`, with entries that have one before entries
+ * that don't. Returns 0 when that doesn't decide, so callers add their own tie-break.
+ */
+export function bySortOrder(a: SortKey, b: SortKey): number {
+  if (a.isFolder !== b.isFolder) {
+    return a.isFolder ? -1 : 1
+  }
+
+  const aSortOrder = typeof a.sortorder === "number" ? a.sortorder : null
+  const bSortOrder = typeof b.sortorder === "number" ? b.sortorder : null
+  if (aSortOrder !== null && bSortOrder !== null) {
+    return aSortOrder - bSortOrder
+  } else if (aSortOrder !== null) {
+    return -1
+  } else if (bSortOrder !== null) {
+    return 1
+  }
+  return 0
+}